@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Layout from './components/Layout.tsx';
 import ProfileEditor from './components/ProfileEditor.tsx';
 import JobHunter from './components/JobHunter.tsx';
@@ -7,13 +7,53 @@ import FreelanceGigs from './components/FreelanceGigs.tsx';
 import ResumeBuilder from './components/ResumeBuilder.tsx';
 import ApplicationTracker from './components/ApplicationTracker.tsx';
 import RoadmapAgent from './components/RoadmapAgent.tsx';
+import JobInbox from './components/JobInbox.tsx';
+import ContactsCRM from './components/ContactsCRM.tsx';
 import InterviewSimulator from './components/InterviewSimulator.tsx';
 import Auth from './components/Auth.tsx';
 import CommandTerminal from './components/CommandTerminal.tsx';
-import { AppState, ApplicationLog, UserProfile, ApplicationStatus, ResumeJson, DiscoveredJob, CommandResult, TaskState, InterviewSession } from './types.ts';
+import { AppState, ApplicationLog, ApplicationStatus, UserProfile, ResumeJson, DiscoveredJob, CommandResult, TaskState, InterviewSession, Job, CoverLetterStyle, SavedSearch, ApplicationStage, Contact, OutreachDraft, OutreachMessage, OutreachStatus, Artifact, SyncQueueStatus, ApplicationSync, ConfigIssue, LlmUsage, CareerRoadmap, DeepPartial } from './types.ts';
 import { DEFAULT_PROFILE } from './constants.tsx';
-import { supabase } from './lib/supabase.ts';
-import { searchJobsPro, addRelevantExperienceViaAI, generateCareerRoadmap } from './services/gemini.ts';
+import { supabase, supabaseSetupError } from './lib/supabase.ts';
+import { addRelevantExperienceViaAI, streamCareerRoadmap, streamCoverLetter } from './services/gemini.ts';
+import { searchJobsPro } from './services/jobSources/index.ts';
+import { runApplicationPipeline, createPipelineLog, loadPipelineRuns, savePipelineRun, PIPELINE_STAGES, STAGE_LABELS } from './services/pipeline.ts';
+import { scoreDiscoveredJobs } from './services/discovery.ts';
+import { dedupeJobs } from './services/jobIdentity.ts';
+import { fetchSavedSearches, persistSavedSearch, persistSearchRun, deleteSavedSearch, createSavedSearch, isSearchDue, runSavedSearch, applySearchRun } from './services/savedSearches.ts';
+import { notify, requestNotificationPermission } from './services/notifications.ts';
+import { moveToStage } from './services/applicationStages.ts';
+import { saveApplicationInOrder } from './services/applicationSync.ts';
+import { loadLocalSnapshot, saveLocal, isNewer, LocalSnapshot } from './services/localStore.ts';
+import { flushSyncQueue, subscribeSyncQueue } from './services/syncQueue.ts';
+import { subscribeConfig, validateConfig } from './services/config.ts';
+import { getUsage, setUsageUser, subscribeUsage } from './services/llm/index.ts';
+import { getRepository } from './services/repository/index.ts';
+import { runTask, cancelTask, retryTask, dismissTask, subscribeTasks, getTask, isAbortError } from './services/tasks.ts';
+import { completeAuthCallback, watchSessionRefresh } from './services/auth.ts';
+import { fetchArtifacts, findArtifact, persistArtifact, recordArtifact } from './services/artifacts.ts';
+import { fetchContacts, persistContact, deleteContact, fetchOutreachMessages, persistOutreachMessage, attachOutreachDraft, setOutreachStatus } from './services/contacts.ts';
+import { refreshSuggestedActions, getDueActions, updateAction, NEXT_ACTION_LABELS } from './services/followUps.ts';
+
+// How often the app checks whether any saved search is due for a re-run
+const SAVED_SEARCH_POLL_MS = 60 * 1000;
+// Roadmaps span six months; streamed steps are measured against this
+const ROADMAP_MONTHS = 6;
+// How often due follow-ups are checked for a notification
+const FOLLOW_UP_POLL_MS = 5 * 60 * 1000;
+
+const EMPTY_STATE: AppState = {
+  profile: null,
+  applications: [],
+  interviewHistory: [],
+  activeStrategy: null,
+  discoveredJobs: [],
+  savedSearches: [],
+  contacts: [],
+  outreach: [],
+  artifacts: [],
+  roadmap: null
+};
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('discover');
@@ -21,110 +61,274 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isCommandProcessing, setIsCommandProcessing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncQueueStatus | null>(null);
+  const [usage, setUsage] = useState<LlmUsage | null>(null);
+  const [tasks, setTasks] = useState<TaskState[]>([]);
+  const [configIssues, setConfigIssues] = useState<ConfigIssue[]>(() => validateConfig().filter(issue => issue.severity === 'error'));
+  const stateRef = useRef<AppState | null>(null);
+  const savedSearchRunningRef = useRef(false);
+  // Artifacts are recorded from pipeline transitions that can land between renders
+  const artifactsRef = useRef<Artifact[]>([]);
+  // Applications the follow-up poller marked, saved once the marked state has rendered
+  const notifiedUnsavedRef = useRef(new Set<string>());
+  const [roadmapDraft, setRoadmapDraft] = useState<DeepPartial<CareerRoadmap> | null>(null);
   
-  const [state, setState] = useState<AppState>({ 
-    profile: null, 
-    applications: [], 
-    interviewHistory: [],
-    activeStrategy: null,
-    discoveredJobs: [],
-    roadmap: null,
-    tasks: {
-      roadmap: { id: 'roadmap', status: 'idle', progress: 0, message: '' },
-      discovery: { id: 'discovery', status: 'idle', progress: 0, message: '' }
-    }
-  });
+  const [state, setState] = useState<AppState>(EMPTY_STATE);
+
+  // Nothing from one account may carry over into the next one signed in on this tab
+  useEffect(() => setState(EMPTY_STATE), [session?.user?.id]);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setLoading(false);
-    });
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-    });
-    return () => subscription.unsubscribe();
+    completeAuthCallback()
+      .catch(err => setError(`Sign-in failed: ${err.message}`))
+      .then(() => supabase.auth.getSession())
+      .then(({ data: { session } }) => {
+        setSession(session);
+        setLoading(false);
+      });
+    // Token refreshes replace the session object; effects key on the user id so they don't re-run
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => setSession(session));
+    const stopWatching = watchSessionRefresh(message => setError(`Your session expired, please sign in again (${message}).`));
+    return () => {
+      subscription.unsubscribe();
+      stopWatching();
+    };
   }, []);
 
   useEffect(() => {
     if (!session?.user) return;
+    const userId = session.user.id;
     const fetchCloudData = async () => {
+      // Show whatever is on this device first so the app works offline
+      let local: LocalSnapshot = {};
       try {
-        let { data: profileData } = await supabase.from('profiles').select('*').eq('id', session.user.id).single();
-        if (!profileData) {
-          const initial = {
-            id: session.user.id,
-            full_name: DEFAULT_PROFILE.fullName,
-            email: session.user.email,
-            resume_tracks: DEFAULT_PROFILE.resume_tracks || DEFAULT_PROFILE.resumeTracks,
-            preferences: DEFAULT_PROFILE.preferences,
-            interview_history: []
-          };
-          const { data: created } = await supabase.from('profiles').insert(initial).select().single();
-          profileData = created;
-        }
-        const { data: appsData } = await supabase.from('applications').select('*').eq('user_id', session.user.id).order('timestamp', { ascending: false });
-        
+        local = await loadLocalSnapshot(userId);
         setState(prev => ({
           ...prev,
-          profile: {
-            fullName: profileData.full_name || "",
-            email: profileData.email || "",
-            phone: profileData.phone || "",
-            linkedin: profileData.linkedin || "",
-            portfolio: profileData.portfolio || "",
-            resumeTracks: profileData.resume_tracks || [],
-            preferences: profileData.preferences || DEFAULT_PROFILE.preferences
-          },
-          interviewHistory: profileData.interview_history || [],
-          applications: (appsData || []).map((app: any) => ({
-            id: app.id,
-            jobId: app.job_id,
-            jobTitle: app.job_title,
-            company: app.company,
-            status: app.status as ApplicationStatus,
-            timestamp: app.timestamp,
-            url: app.url,
-            platform: app.platform || 'Other',
-            location: app.location || 'Remote',
-            coverLetter: app.cover_letter,
-            mutatedResume: app.mutated_resume,
-            mutation_report: app.mutation_report,
-            verification: app.verification
-          }))
+          profile: local.profile?.value || prev.profile,
+          applications: local.applications?.value || prev.applications,
+          interviewHistory: local.interview_history?.value || prev.interviewHistory,
+          discoveredJobs: local.discovered_jobs?.value || prev.discoveredJobs
         }));
+      } catch (err) {
+        console.error("Failed to read local store:", err);
+      }
+
+      try {
+        const repository = getRepository();
+        const stored = await repository.getProfile(userId)
+          || await repository.createProfile(userId, { ...DEFAULT_PROFILE, email: session.user.email || DEFAULT_PROFILE.email });
+        const cloudApps = await repository.listApplications(userId);
+        // Pipeline checkpoints only live on this device, so reattach them to the cloud rows
+        const runs = loadPipelineRuns(userId);
+        const serverApps = [
+          ...runs.filter(run => !cloudApps.some(app => app.id === run.id)),
+          ...cloudApps.map(app => {
+            const pipeline = app.pipeline || runs.find(run => run.id === app.id)?.pipeline;
+            return pipeline ? { ...app, pipeline } : app;
+          })
+        ];
+
+        // Per record, the side that changed last wins
+        const localApps = local.applications?.value || [];
+        const applications = [
+          ...serverApps.map(app => {
+            const mine = localApps.find(a => a.id === app.id);
+            return mine && isNewer(mine.updatedAt, app.updatedAt) ? { ...mine, pipeline: mine.pipeline || app.pipeline } : app;
+          }),
+          ...localApps.filter(a => !serverApps.some(app => app.id === a.id))
+        ].map(refreshSuggestedActions);
+        const keepLocalProfile = !!local.profile && isNewer(local.profile.updatedAt, stored.updatedAt);
+        const keepLocalHistory = !!local.interview_history && isNewer(local.interview_history.updatedAt, stored.updatedAt);
+        const profile = keepLocalProfile ? local.profile!.value : stored.profile;
+        const interviewHistory = keepLocalHistory ? local.interview_history!.value : stored.interviewHistory;
+
+        setState(prev => ({ ...prev, profile, interviewHistory, applications }));
+        // Writes that failed or were cut off in an earlier session
+        applications.filter(a => a.sync && a.sync.status !== 'saved').forEach(app => persistApplication(app));
+        if (!keepLocalProfile) saveLocal(userId, 'profile', profile, stored.updatedAt).catch(console.error);
+        if (!keepLocalHistory) saveLocal(userId, 'interview_history', interviewHistory, stored.updatedAt).catch(console.error);
+
+        const roadmap = await repository.getRoadmap(userId).catch(err => {
+          console.error("Failed to load roadmap:", err);
+          return null;
+        });
+        if (roadmap) setState(prev => ({ ...prev, roadmap: prev.roadmap || roadmap }));
+
+        const cloudJobs = await repository.getDiscoveredJobs(userId).catch(err => {
+          console.error("Failed to load discovered jobs:", err);
+          return null;
+        });
+        if (cloudJobs && !isNewer(local.discovered_jobs?.updatedAt, cloudJobs.updatedAt)) {
+          setState(prev => ({ ...prev, discoveredJobs: cloudJobs.jobs }));
+        }
       } catch (err: any) {
-        setError(`Cloud Sync Issue: ${err.message}`);
+        setError(local.profile ? `Offline: showing data saved on this device (${err.message})` : `Cloud Sync Issue: ${err.message}`);
       }
     };
     fetchCloudData();
-  }, [session]);
+    flushSyncQueue();
+    fetchSavedSearches(session.user.id)
+      .then(savedSearches => setState(prev => ({ ...prev, savedSearches })))
+      .catch(err => console.error("Failed to load saved searches:", err));
+    Promise.all([fetchContacts(session.user.id), fetchOutreachMessages(session.user.id)])
+      .then(([contacts, outreach]) => setState(prev => ({ ...prev, contacts, outreach })))
+      .catch(err => console.error("Failed to load contacts:", err));
+    fetchArtifacts(session.user.id)
+      .then(artifacts => {
+        artifactsRef.current = artifacts;
+        setState(prev => ({ ...prev, artifacts }));
+      })
+      .catch(err => console.error("Failed to load artifacts:", err));
+  }, [session?.user?.id]);
 
-  const updateTask = (id: string, updates: Partial<TaskState>) => {
-    setState(prev => ({
-      ...prev,
-      tasks: {
-        ...prev.tasks,
-        [id]: { ...prev.tasks[id], ...updates } as TaskState
+  stateRef.current = state;
+
+  useEffect(() => subscribeSyncQueue(setSyncStatus), []);
+
+  useEffect(() => subscribeUsage(setUsage), []);
+
+  useEffect(() => subscribeTasks(setTasks), []);
+
+  useEffect(() => setUsageUser(session?.user?.id || null), [session?.user?.id]);
+
+  useEffect(() => subscribeConfig(config => {
+    setConfigIssues(validateConfig(config).filter(issue => issue.severity === 'error'));
+    // Budget limits live in settings
+    setUsage(getUsage());
+  }), []);
+
+  // Applications that failed or are waiting to save get another attempt once the connection returns
+  useEffect(() => {
+    const retryFailed = () => {
+      stateRef.current?.applications.filter(a => a.sync?.status === 'failed' || a.sync?.status === 'queued').forEach(app => persistApplication(app));
+    };
+    window.addEventListener('online', retryFailed);
+    return () => window.removeEventListener('online', retryFailed);
+  }, [session?.user?.id]);
+
+  // Applications and discovered jobs are cached whole; profile and interview
+  // history are written by their handlers so their timestamps mean "edited".
+  useEffect(() => {
+    if (!session?.user || !state.profile) return;
+    saveLocal(session.user.id, 'applications', state.applications).catch(err => console.error("Failed to cache applications:", err));
+  }, [state.applications]);
+
+  useEffect(() => {
+    if (!session?.user || !state.profile) return;
+    saveLocal(session.user.id, 'discovered_jobs', state.discoveredJobs).catch(err => console.error("Failed to cache discovered jobs:", err));
+  }, [state.discoveredJobs]);
+
+  // Background re-runs of saved searches while the app is open
+  useEffect(() => {
+    if (!session?.user) return;
+    const tick = async () => {
+      const current = stateRef.current;
+      if (savedSearchRunningRef.current || !current?.profile) return;
+      const due = current.savedSearches.filter(s => isSearchDue(s));
+      if (due.length === 0) return;
+
+      const preferences = current.profile.preferences;
+      try {
+        await runTask({
+          id: 'saved-searches',
+          label: 'Saved Searches',
+          stages: due.map(s => s.id),
+          run: async task => {
+            // Checked here rather than in tick so retries from the activity drawer can't overlap a run either
+            if (savedSearchRunningRef.current) throw new Error('The previous saved-search run is still finishing.');
+            savedSearchRunningRef.current = true;
+            try {
+              let total = 0;
+              for (const { id } of due) {
+                // Read fresh on every pass so a retry never works from stale fingerprints
+                const search = stateRef.current?.savedSearches.find(s => s.id === id);
+                if (!search) continue;
+                task.signal.throwIfAborted();
+                task.stage(search.id, `Checking "${search.query}"...`);
+                try {
+                  const run = await runSavedSearch(search, preferences, task.signal);
+                  task.signal.throwIfAborted();
+                  // Merge into the search as it is now; it may have been marked seen or removed meanwhile
+                  const latest = stateRef.current?.savedSearches.find(s => s.id === id);
+                  if (!latest) continue;
+                  setState(prev => ({
+                    ...prev,
+                    savedSearches: prev.savedSearches.map(s => s.id === id ? applySearchRun(s, run) : s)
+                  }));
+                  persistSearchRun(applySearchRun(latest, run)).catch(err => setError(`Saved search sync failed: ${err.message}`));
+                  total += run.found.length;
+                  if (run.found.length > 0 && search.lastRunAt) {
+                    notify(`${run.found.length} new job${run.found.length === 1 ? '' : 's'}`, `Saved search "${search.query}"`, { tag: `saved-search-${search.id}`, tab: 'inbox' });
+                  }
+                } catch (err) {
+                  if (isAbortError(err)) throw err;
+                  console.error(`Saved search "${search.query}" failed:`, err);
+                }
+              }
+              return total;
+            } finally {
+              savedSearchRunningRef.current = false;
+            }
+          },
+          done: total => `${total} new job${total === 1 ? '' : 's'} found`
+        });
+      } catch {
+        // Cancelled or still finishing; the remaining searches run on the next tick
       }
-    }));
-  };
+    };
+    tick();
+    const timer = setInterval(tick, SAVED_SEARCH_POLL_MS);
+    return () => clearInterval(timer);
+  }, [session?.user?.id]);
+
+  // Notify once for each follow-up as it falls due
+  useEffect(() => {
+    if (!session?.user) return;
+    const tick = () => {
+      const current = stateRef.current;
+      if (!current) return;
+      getDueActions(current.applications)
+        .filter(({ action }) => !action.notifiedAt)
+        .forEach(({ app, action }) => {
+          notify(`${NEXT_ACTION_LABELS[action.kind]} due`, `${app.jobTitle} @ ${app.company}`, { tag: `follow-up-${action.id}`, tab: 'history' });
+          const notifiedAt = new Date().toISOString();
+          // Marked on whatever the application is by then, not the copy read above
+          setState(prev => ({
+            ...prev,
+            applications: prev.applications.map(a => a.id === app.id ? { ...updateAction(a, action.id, { notifiedAt }), updatedAt: notifiedAt } : a)
+          }));
+          notifiedUnsavedRef.current.add(app.id);
+        });
+    };
+    tick();
+    const timer = setInterval(tick, FOLLOW_UP_POLL_MS);
+    return () => clearInterval(timer);
+  }, [session?.user?.id]);
+
+  useEffect(() => {
+    if (!notifiedUnsavedRef.current.size) return;
+    state.applications.filter(a => notifiedUnsavedRef.current.has(a.id)).forEach(app => persistApplication(app));
+    notifiedUnsavedRef.current.clear();
+  }, [state.applications]);
+
+  // Notification clicks are relayed by the service worker
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open_tab' && event.data.tab) setActiveTab(event.data.tab);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
 
   const handleUpdateProfile = async (newProfile: UserProfile) => {
     if (!session?.user) return;
+    const updatedAt = new Date().toISOString();
     setState(prev => ({ ...prev, profile: newProfile }));
     try {
-      await supabase.from('profiles').upsert({
-        id: session.user.id,
-        full_name: newProfile.fullName,
-        email: newProfile.email,
-        phone: newProfile.phone,
-        linkedin: newProfile.linkedin,
-        portfolio: newProfile.portfolio,
-        resume_tracks: newProfile.resumeTracks || [],
-        preferences: newProfile.preferences,
-        updated_at: new Date().toISOString()
-      });
+      await saveLocal(session.user.id, 'profile', newProfile, updatedAt);
+      await getRepository().saveProfile(session.user.id, newProfile, updatedAt);
     } catch (err: any) {
       setError(`Profile Update Failed: ${err.message}`);
     }
@@ -132,17 +336,344 @@ const App: React.FC = () => {
 
   const handleSaveInterviewSession = async (newSession: InterviewSession) => {
     if (!session?.user || !state.profile) return;
+    const updatedAt = new Date().toISOString();
     const updatedHistory = [newSession, ...state.interviewHistory];
     setState(prev => ({ ...prev, interviewHistory: updatedHistory }));
     try {
-      await supabase.from('profiles').update({
-        interview_history: updatedHistory
-      }).eq('id', session.user.id);
+      await saveLocal(session.user.id, 'interview_history', updatedHistory, updatedAt);
+      await getRepository().saveInterviewSessions(session.user.id, updatedHistory, updatedAt);
+    } catch (err: any) {
+      setError(`Interview session could not be saved: ${err.message}`);
+    }
+  };
+
+  // A new search cancels the one in flight, as does aborting `signal` (the view that started it going away)
+  const runDiscovery = async (query: string, signal?: AbortSignal) => {
+    if (!state.profile) return;
+    const profile = state.profile;
+    try {
+      await runTask({
+        id: 'discovery',
+        label: 'Discovery',
+        stages: ['Search', 'Score'],
+        run: async task => {
+          // A run that was already superseded must not cancel its successor
+          const cancel = () => { if (!task.signal.aborted) cancelTask('discovery'); };
+          signal?.addEventListener('abort', cancel, { once: true });
+          try {
+            task.stage('Search', `Searching for ${query}...`);
+            const jobs = dedupeJobs(await searchJobsPro(query, profile.preferences, { signal: task.signal })) || [];
+            task.signal.throwIfAborted();
+            setState(prev => ({ ...prev, discoveredJobs: jobs }));
+
+            task.stage('Score', `Scoring ${jobs.length} leads...`);
+            const ranked = await scoreDiscoveredJobs(jobs, profile, (index, job, done) => {
+              if (task.signal.aborted) return;
+              setState(prev => ({ ...prev, discoveredJobs: prev.discoveredJobs.map((j, i) => i === index ? job : j) }));
+              task.advance(done / jobs.length, `Scored ${done}/${jobs.length} leads`);
+            }, task.signal);
+            task.signal.throwIfAborted();
+            setState(prev => ({ ...prev, discoveredJobs: ranked }));
+            persistDiscoveredJobs(ranked);
+            return ranked;
+          } finally {
+            signal?.removeEventListener('abort', cancel);
+          }
+        },
+        done: ranked => `${ranked.length} leads ranked`
+      });
+    } catch (e) {
+      if (!isAbortError(e)) throw e;
+    }
+  };
+
+  const updateSavedSearch = (search: SavedSearch) => {
+    setState(prev => ({
+      ...prev,
+      savedSearches: prev.savedSearches.some(s => s.id === search.id)
+        ? prev.savedSearches.map(s => s.id === search.id ? search : s)
+        : [search, ...prev.savedSearches]
+    }));
+    if (session?.user) {
+      persistSavedSearch(session.user.id, search).catch(err => setError(`Saved search sync failed: ${err.message}`));
+    }
+  };
+
+  const handleAddSavedSearch = (query: string, intervalMinutes: number) => {
+    updateSavedSearch(createSavedSearch(query, intervalMinutes));
+    requestNotificationPermission();
+  };
+
+  const handleRemoveSavedSearch = async (id: string) => {
+    setState(prev => ({ ...prev, savedSearches: prev.savedSearches.filter(s => s.id !== id) }));
+    try {
+      await deleteSavedSearch(id);
+    } catch (err: any) {
+      setError(`Saved search removal failed: ${err.message}`);
+    }
+  };
+
+  const handleSaveContact = async (contact: Contact) => {
+    setState(prev => ({
+      ...prev,
+      contacts: [contact, ...prev.contacts.filter(c => c.id !== contact.id)]
+    }));
+    if (!session?.user) return;
+    try {
+      await persistContact(session.user.id, contact);
     } catch (err: any) {
-       console.error("Failed to persist interview session:", err);
+      setError(`Contact sync failed: ${err.message}`);
     }
   };
 
+  const handleDeleteContact = async (id: string) => {
+    setState(prev => ({
+      ...prev,
+      contacts: prev.contacts.filter(c => c.id !== id),
+      outreach: prev.outreach.filter(m => m.contactId !== id)
+    }));
+    try {
+      await deleteContact(id);
+    } catch (err: any) {
+      setError(`Contact removal failed: ${err.message}`);
+    }
+  };
+
+  const saveOutreachMessage = async (contact: Contact, message: OutreachMessage) => {
+    setState(prev => ({
+      ...prev,
+      outreach: [message, ...prev.outreach.filter(m => m.id !== message.id)]
+    }));
+    await handleSaveContact(contact);
+    if (!session?.user) return;
+    try {
+      await persistOutreachMessage(session.user.id, message);
+    } catch (err: any) {
+      setError(`Outreach sync failed: ${err.message}`);
+    }
+  };
+
+  const handleAttachOutreach = (draft: OutreachDraft, job: Job, contact: Contact) => {
+    const attached = attachOutreachDraft(contact, draft, job);
+    saveOutreachMessage(attached.contact, attached.message);
+  };
+
+  const handleOutreachStatus = (messageId: string, status: Exclude<OutreachStatus, 'draft'>) => {
+    const message = state.outreach.find(m => m.id === messageId);
+    const contact = message && state.contacts.find(c => c.id === message.contactId);
+    if (!message || !contact) return;
+    const updated = setOutreachStatus(contact, message, status);
+    saveOutreachMessage(updated.contact, updated.message);
+  };
+
+  const saveArtifact = async (artifact: Artifact) => {
+    artifactsRef.current = [artifact, ...artifactsRef.current.filter(a => a.id !== artifact.id)];
+    setState(prev => ({ ...prev, artifacts: [artifact, ...prev.artifacts.filter(a => a.id !== artifact.id)] }));
+    if (!session?.user) return;
+    try {
+      await persistArtifact(session.user.id, artifact);
+    } catch (err: any) {
+      setError(`Artifact sync failed: ${err.message}`);
+    }
+  };
+
+  // Every cover letter and tailored resume a pipeline produces becomes a new artifact version
+  const recordPipelineArtifacts = (log: ApplicationLog) => {
+    const job = { id: log.jobId, title: log.jobTitle, company: log.company };
+    const track = state.profile?.resumeTracks.find(t => t.id === log.pipeline?.trackId);
+    const inputs = { trackId: log.pipeline?.trackId, trackName: track?.name };
+    if (log.coverLetter) {
+      const artifact = recordArtifact(artifactsRef.current, 'cover_letter', job, log.coverLetter, 'regenerated', {
+        ...inputs, style: log.pipeline?.coverLetterStyle, candidateName: state.profile?.fullName
+      });
+      if (artifact) saveArtifact(artifact);
+    }
+    if (log.mutatedResume) {
+      const artifact = recordArtifact(artifactsRef.current, 'tailored_resume', job, log.mutatedResume, 'regenerated', {
+        ...inputs, keywordsInjected: log.mutationReport?.keywordsInjected
+      });
+      if (artifact) saveArtifact(artifact);
+    }
+  };
+
+  const markApplicationSync = (id: string, sync: ApplicationSync) => {
+    setState(prev => ({ ...prev, applications: prev.applications.map(a => a.id === id ? { ...a, sync } : a) }));
+  };
+
+  /**
+   * Queues the application row and records the outcome on the application so
+   * the tracker can show failures and offer a retry.
+   */
+  const persistApplication = async (app: ApplicationLog) => {
+    if (!session?.user) return;
+    markApplicationSync(app.id, { status: 'saving', at: new Date().toISOString() });
+    try {
+      const outcome = await saveApplicationInOrder(session.user.id, app);
+      const at = new Date().toISOString();
+      if (outcome.status === 'applied') {
+        markApplicationSync(app.id, { status: 'saved', at });
+      } else if (outcome.status === 'queued') {
+        markApplicationSync(app.id, { status: 'queued', error: outcome.error, at });
+      } else if (outcome.status === 'stale') {
+        markApplicationSync(app.id, { status: 'failed', error: 'A newer copy was saved from another tab or device. Reload to see it.', at });
+      } else {
+        markApplicationSync(app.id, { status: 'failed', error: outcome.error, at });
+        setError(`Application "${app.jobTitle}" was not saved: ${outcome.error}`);
+      }
+    } catch (err: any) {
+      markApplicationSync(app.id, { status: 'failed', error: err.message, at: new Date().toISOString() });
+      setError(`Application "${app.jobTitle}" was not saved: ${err.message}`);
+    }
+  };
+
+  const persistDiscoveredJobs = (jobs: DiscoveredJob[]) => {
+    if (!session?.user) return;
+    getRepository().saveDiscoveredJobs(session.user.id, jobs, new Date().toISOString())
+      .catch(err => console.error("Failed to sync discovered jobs:", err));
+  };
+
+  const handleApplicationUpdate = (update: ApplicationLog) => {
+    const log = { ...update, updatedAt: new Date().toISOString() };
+    setState(prev => ({
+      ...prev,
+      applications: prev.applications.some(a => a.id === log.id)
+        ? prev.applications.map(a => a.id === log.id ? log : a)
+        : [log, ...prev.applications]
+    }));
+    if (session?.user) savePipelineRun(session.user.id, log);
+    recordPipelineArtifacts(log);
+    persistApplication(log);
+  };
+
+  /**
+   * Saves an artifact change and, for cover letters and resumes, makes the
+   * current version the one the application carries.
+   */
+  const handleArtifactChange = (artifact: Artifact) => {
+    saveArtifact(artifact);
+    const content = artifact.versions.find(v => v.version === artifact.currentVersion)?.content;
+    // Only the application's own unkeyed artifact of this kind carries over, never another one for the same job
+    const app = state.applications.find(a => findArtifact(artifactsRef.current, artifact.kind, a.jobId)?.id === artifact.id);
+    if (!app || content === undefined) return;
+    if (artifact.kind === 'cover_letter' && typeof content === 'string') replaceApplication({ ...app, coverLetter: content });
+    if (artifact.kind === 'tailored_resume' && typeof content === 'object') replaceApplication({ ...app, mutatedResume: content });
+  };
+
+  const handleRegenerateCoverLetter = async (app: ApplicationLog, onText: (text: string) => void, signal: AbortSignal) => {
+    const job = app.pipeline?.job;
+    const track = state.profile?.resumeTracks.find(t => t.id === app.pipeline?.trackId);
+    if (!job || !track || !state.profile) return;
+    const style = app.pipeline?.coverLetterStyle || CoverLetterStyle.MODERN;
+    try {
+      const coverLetter = await streamCoverLetter(job, track, style, state.profile.fullName, onText, { signal });
+      const artifact = recordArtifact(artifactsRef.current, 'cover_letter', { id: app.jobId, title: app.jobTitle, company: app.company }, coverLetter, 'regenerated', {
+        trackId: track.id, trackName: track.name, style, candidateName: state.profile.fullName
+      });
+      if (artifact) handleArtifactChange(artifact);
+    } catch (err: any) {
+      if (signal.aborted) return;
+      setError(`Cover letter regeneration failed: ${err.message}`);
+    }
+  };
+
+  // Steps render as they stream in; the previous roadmap stays until the new one completes
+  const handleGenerateRoadmap = () => {
+    if (!state.profile || !session?.user?.id) return;
+    const profile = state.profile;
+    const userId = session.user.id;
+    runTask({
+      id: 'roadmap',
+      label: 'Career Roadmap',
+      stages: ['Research', 'Assessment', 'Timeline'],
+      run: async task => {
+        task.stage('Research', 'Initiating Neural Scan...');
+        try {
+          const roadmap = await streamCareerRoadmap(profile, partial => {
+            setRoadmapDraft(partial);
+            const steps = partial.steps?.length || 0;
+            if (steps > 0) {
+              task.stage('Timeline', `Drafting Step ${steps}...`);
+              task.advance(steps / ROADMAP_MONTHS);
+            } else if (partial.currentMarketValue) {
+              task.stage('Assessment', 'Benchmarking Market Value...');
+            }
+          }, { signal: task.signal });
+          setState(prev => ({ ...prev, roadmap }));
+          getRepository().saveRoadmap(userId, roadmap).catch(err => setError(`Roadmap could not be saved: ${err.message}`));
+          return roadmap;
+        } finally {
+          setRoadmapDraft(null);
+        }
+      },
+      done: () => 'Strategy Ready'
+    }).catch(() => {
+      // Failures and cancellations are shown on the task
+    });
+  };
+
+  const handleOutreachGenerated = (job: Job, drafts: OutreachDraft[]) => {
+    drafts.forEach(draft => {
+      const artifact = recordArtifact(artifactsRef.current, 'outreach_message', job, draft.message, 'regenerated', {
+        platform: draft.platform, recipientRole: draft.recipientRole, trackId: state.profile?.resumeTracks[0]?.id
+      }, draft.platform);
+      if (artifact) saveArtifact(artifact);
+    });
+  };
+
+  const replaceApplication = (change: ApplicationLog) => {
+    const updated = { ...change, updatedAt: new Date().toISOString() };
+    setState(prev => ({ ...prev, applications: prev.applications.map(a => a.id === updated.id ? updated : a) }));
+    if (updated.pipeline && session?.user) savePipelineRun(session.user.id, updated);
+    persistApplication(updated);
+  };
+
+  const handleStageChange = (app: ApplicationLog, stage: ApplicationStage) => {
+    replaceApplication(refreshSuggestedActions(moveToStage(app, stage)));
+    requestNotificationPermission();
+  };
+
+  const handleNextActionsChange = (updated: ApplicationLog) => {
+    replaceApplication(updated);
+  };
+
+  // One task per application, so parallel runs can be followed side by side
+  const runPipelineTask = (log: ApplicationLog, profile: UserProfile) => runTask({
+    id: `pipeline:${log.id}`,
+    label: `Apply: ${log.jobTitle} @ ${log.company}`,
+    stages: PIPELINE_STAGES.map(stage => STAGE_LABELS[stage]),
+    run: async task => {
+      // A retry picks up from the latest checkpoint rather than the original log
+      const latest = stateRef.current?.applications.find(a => a.id === log.id) || log;
+      const result = await runApplicationPipeline(latest, profile, updated => {
+        handleApplicationUpdate(updated);
+        const stage = STAGE_LABELS[updated.status];
+        if (stage) task.stage(stage, `${stage}...`);
+      }, task.signal);
+      if (result.status === ApplicationStatus.FAILED) throw new Error(result.pipeline?.error || 'Pipeline failed.');
+      return result;
+    },
+    done: result => result.status === ApplicationStatus.RISK_HALT ? 'Halted before dispatch' : 'Application ready'
+  });
+
+  const handleRunPipeline = async (job: Job, trackId: string, style: CoverLetterStyle) => {
+    const track = state.profile?.resumeTracks.find(t => t.id === trackId);
+    if (!state.profile || !track) return;
+    const log = createPipelineLog(job, track, style);
+    handleApplicationUpdate(log);
+    try {
+      return await runPipelineTask(log, state.profile);
+    } catch (e) {
+      if (isAbortError(e)) return undefined;
+      throw e;
+    }
+  };
+
+  // Failures show on the application itself and in the activity drawer
+  const handleResumePipeline = async (log: ApplicationLog) => {
+    if (!state.profile) return;
+    return runPipelineTask(log, state.profile).catch(() => undefined);
+  };
+
   const handleGlobalCommand = async (cmd: CommandResult) => {
     if (cmd.action === 'blocked' || !state.profile) return;
     setIsCommandProcessing(true);
@@ -153,11 +684,8 @@ const App: React.FC = () => {
         case 'search_jobs': 
           const query = cmd.params?.query || cmd.goal || "";
           if (query) {
-            updateTask('discovery', { status: 'running', progress: 10, message: `Searching for ${query}...` });
-            const jobs = await searchJobsPro(query);
-            setState(prev => ({ ...prev, discoveredJobs: jobs }));
-            updateTask('discovery', { status: 'completed', progress: 100, message: 'Discovery Complete' });
             setActiveTab('discover');
+            await runDiscovery(query);
           }
           break;
       }
@@ -177,9 +705,9 @@ const App: React.FC = () => {
     </div>
   );
   
-  if (!session) return <Auth />;
+  if (!session) return <Auth notice={error || supabaseSetupError} />;
 
-  const anyTaskRunning = (Object.values(state.tasks) as TaskState[]).some(t => t.status === 'running');
+  const anyTaskRunning = tasks.some(t => t.status === 'running');
 
   return (
     <Layout 
@@ -187,24 +715,60 @@ const App: React.FC = () => {
       setActiveTab={setActiveTab} 
       onLogout={() => supabase.auth.signOut()}
       isProcessing={anyTaskRunning}
+      badges={{ inbox: state.savedSearches.reduce((sum, s) => sum + s.newJobs.length, 0) }}
+      syncStatus={syncStatus}
+      configIssues={configIssues}
+      usage={usage}
+      tasks={tasks}
+      onCancelTask={cancelTask}
+      onRetryTask={retryTask}
+      onDismissTask={dismissTask}
     >
       <CommandTerminal onExecute={handleGlobalCommand} isProcessing={isCommandProcessing} />
       
       {state.profile ? (
         <>
           {activeTab === 'profile' && <ProfileEditor profile={state.profile} onSave={handleUpdateProfile} onLogout={() => supabase.auth.signOut()} />}
-          {activeTab === 'history' && <ApplicationTracker applications={state.applications} profile={state.profile} />}
+          {activeTab === 'history' && <ApplicationTracker applications={state.applications} profile={state.profile} onResumePipeline={handleResumePipeline} onStageChange={handleStageChange} onNextActionsChange={handleNextActionsChange} artifacts={state.artifacts} onArtifactChange={handleArtifactChange} onRegenerateCoverLetter={handleRegenerateCoverLetter} onRetrySync={persistApplication} />}
           {activeTab === 'discover' && (
             <JobHunter 
               profile={state.profile} 
               activeStrategy={state.activeStrategy}
               discoveredJobs={state.discoveredJobs}
-              onDiscoveredJobsUpdate={(jobs) => setState(prev => ({ ...prev, discoveredJobs: jobs }))}
-              onApply={(log) => setState(prev => ({ ...prev, applications: [log, ...prev.applications] }))} 
+              applications={state.applications}
+              contacts={state.contacts}
+              artifacts={state.artifacts}
+              onAttachOutreach={handleAttachOutreach}
+              onOutreachGenerated={handleOutreachGenerated}
+              onArtifactChange={handleArtifactChange}
+              onSearch={runDiscovery}
+              onDispatch={handleRunPipeline}
               onStrategyUpdate={(p) => setState(prev => ({ ...prev, activeStrategy: p }))}
               onProfileUpdate={handleUpdateProfile}
               onTabSwitch={setActiveTab}
-              task={state.tasks.discovery}
+              task={getTask('discovery', tasks)}
+            />
+          )}
+          {activeTab === 'inbox' && (
+            <JobInbox
+              savedSearches={state.savedSearches}
+              onAdd={handleAddSavedSearch}
+              onRemove={handleRemoveSavedSearch}
+              onUpdate={updateSavedSearch}
+              onOpenJobs={(jobs) => {
+                setState(prev => ({ ...prev, discoveredJobs: jobs }));
+                persistDiscoveredJobs(jobs);
+                setActiveTab('discover');
+              }}
+            />
+          )}
+          {activeTab === 'network' && (
+            <ContactsCRM
+              contacts={state.contacts}
+              outreach={state.outreach}
+              onSave={handleSaveContact}
+              onDelete={handleDeleteContact}
+              onOutreachStatus={handleOutreachStatus}
             />
           )}
           {activeTab === 'freelance' && <FreelanceGigs profile={state.profile} />}
@@ -216,13 +780,10 @@ const App: React.FC = () => {
             <RoadmapAgent 
               profile={state.profile} 
               roadmap={state.roadmap} 
-              task={state.tasks.roadmap} 
-              onTrigger={async () => {
-                updateTask('roadmap', { status: 'running', progress: 5, message: 'Initiating Neural Scan...' });
-                const roadmap = await generateCareerRoadmap(state.profile!);
-                setState(prev => ({ ...prev, roadmap }));
-                updateTask('roadmap', { status: 'completed', progress: 100, message: 'Strategy Ready' });
-              }}
+              task={getTask('roadmap', tasks)}
+              draft={roadmapDraft}
+              onTrigger={handleGenerateRoadmap}
+              onCancel={() => cancelTask('roadmap')}
             />
           )}
           {activeTab === 'interview' && (
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { TaskState, TaskStatus } from '../types';
+import { Icons } from '../constants';
+
+interface ActivityDrawerProps {
+  tasks: TaskState[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<TaskStatus, { label: string; badge: string; bar: string }> = {
+  idle: { label: 'Idle', badge: 'bg-slate-100 text-slate-400', bar: 'bg-slate-300' },
+  running: { label: 'Running', badge: 'bg-indigo-50 text-indigo-600', bar: 'bg-indigo-500' },
+  completed: { label: 'Done', badge: 'bg-emerald-50 text-emerald-600', bar: 'bg-emerald-500' },
+  error: { label: 'Failed', badge: 'bg-red-50 text-red-600', bar: 'bg-red-500' },
+  cancelled: { label: 'Cancelled', badge: 'bg-slate-100 text-slate-500', bar: 'bg-slate-300' }
+};
+
+/**
+ * Every tracked long-running operation with its progress. Opens by itself
+ * when something fails so errors are never missed.
+ */
+const ActivityDrawer: React.FC<ActivityDrawerProps> = ({ tasks, onCancel, onRetry, onDismiss }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const running = tasks.filter(t => t.status === 'running');
+  const failed = tasks.filter(t => t.status === 'error');
+
+  useEffect(() => {
+    if (failed.length > 0) setIsOpen(true);
+  }, [failed.length]);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 md:left-auto md:right-10 md:translate-x-0 z-50 flex flex-col items-end gap-3 w-[calc(100%-2rem)] md:w-96">
+      {isOpen && (
+        <div className="w-full bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4">
+          <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Agent Activity</p>
+            <button onClick={() => setIsOpen(false)} className="p-1 text-slate-400 hover:text-slate-600"><Icons.Close /></button>
+          </div>
+          <div className="max-h-[50vh] overflow-y-auto divide-y divide-slate-50">
+            {tasks.map(task => {
+              const style = STATUS_STYLES[task.status];
+              return (
+                <div key={task.id} className="px-6 py-4 space-y-2">
+                  <div className="flex justify-between items-start gap-3">
+                    <p className="text-xs font-black text-slate-800 leading-tight">{task.label}</p>
+                    <span className={`shrink-0 text-[8px] font-black px-2 py-0.5 rounded-full uppercase tracking-widest ${style.badge}`}>{style.label}</span>
+                  </div>
+                  <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                    <div className={`h-full transition-all duration-500 ${style.bar}`} style={{ width: `${task.progress}%` }}></div>
+                  </div>
+                  <div className="flex justify-between items-center gap-3">
+                    <p className="text-[10px] text-slate-500 font-medium truncate">{task.message}</p>
+                    <div className="flex gap-3 shrink-0">
+                      {task.status === 'running' && (
+                        <button onClick={() => onCancel(task.id)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:text-red-500">Cancel</button>
+                      )}
+                      {(task.status === 'error' || task.status === 'cancelled') && (
+                        <button onClick={() => onRetry(task.id)} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">Retry</button>
+                      )}
+                      {task.status !== 'running' && (
+                        <button onClick={() => onDismiss(task.id)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:underline">Dismiss</button>
+                      )}
+                    </div>
+                  </div>
+                  {task.error && task.status === 'error' && (
+                    <p className="text-[10px] font-bold text-red-500 bg-red-50 rounded-xl px-3 py-2">{task.error}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="glass-hud px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl border border-white/10"
+      >
+        <div className="relative">
+          <div className={`w-2.5 h-2.5 rounded-full ${failed.length > 0 ? 'bg-red-500' : running.length > 0 ? 'bg-indigo-500' : 'bg-emerald-500'}`}></div>
+          {running.length > 0 && <div className="absolute inset-0 w-2.5 h-2.5 bg-indigo-500 rounded-full pulse-ring"></div>}
+        </div>
+        <span className="text-[11px] font-black text-white uppercase tracking-widest whitespace-nowrap">
+          {running.length > 0 ? `${running.length} Task${running.length === 1 ? '' : 's'} Running` : failed.length > 0 ? `${failed.length} Failed` : 'Activity'}
+        </span>
+        {running.length === 1 && (
+          <span className="text-[10px] font-mono text-indigo-400">{running[0].progress}%</span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default ActivityDrawer;
@@ -1,23 +1,123 @@
 
-import React, { useState, useEffect } from 'react';
-import { ApplicationLog, UserProfile } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ApplicationLog, ApplicationStatus, ApplicationStage, NextActionKind, UserProfile, Artifact } from '../types';
 import { Icons } from '../constants';
+import { isResumable } from '../services/pipeline';
+import { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, getApplicationStage, getStageEnteredAt } from '../services/applicationStages';
+import { NEXT_ACTION_LABELS, createNextAction, completeAction, isOpen, isOverdue } from '../services/followUps';
+import { findArtifact } from '../services/artifacts';
+import FollowUpPanel from './FollowUpPanel';
+import ArtifactHistory from './ArtifactHistory';
 import { jsPDF } from 'jspdf';
 
 interface ApplicationTrackerProps {
   applications: ApplicationLog[];
   profile: UserProfile | null;
+  onResumePipeline?: (app: ApplicationLog) => Promise<ApplicationLog | undefined>;
+  onStageChange?: (app: ApplicationLog, stage: ApplicationStage) => void;
+  onNextActionsChange?: (app: ApplicationLog) => void;
+  artifacts?: Artifact[];
+  onArtifactChange?: (artifact: Artifact) => void;
+  onRegenerateCoverLetter?: (app: ApplicationLog, onText: (text: string) => void, signal: AbortSignal) => Promise<void>;
+  onRetrySync?: (app: ApplicationLog) => void;
 }
 
-const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, profile }) => {
+const STAGE_ACCENTS: Record<ApplicationStage, string> = {
+  [ApplicationStage.SAVED]: 'bg-slate-400',
+  [ApplicationStage.APPLIED]: 'bg-indigo-500',
+  [ApplicationStage.SCREENING]: 'bg-sky-500',
+  [ApplicationStage.INTERVIEWING]: 'bg-amber-500',
+  [ApplicationStage.OFFER]: 'bg-emerald-500',
+  [ApplicationStage.REJECTED]: 'bg-red-500',
+  [ApplicationStage.WITHDRAWN]: 'bg-slate-300'
+};
+
+const daysSince = (iso: string) => Math.max(0, Math.floor((Date.now() - new Date(iso).getTime()) / 86400000));
+
+const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, profile, onResumePipeline, onStageChange, onNextActionsChange, artifacts = [], onArtifactChange, onRegenerateCoverLetter, onRetrySync }) => {
+  const [view, setView] = useState<'table' | 'board'>('table');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStage | null>(null);
   const [selectedResume, setSelectedResume] = useState<ApplicationLog | null>(null);
   const [selectedCL, setSelectedCL] = useState<{ text: string, app: ApplicationLog } | null>(null);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [letterDraft, setLetterDraft] = useState('');
+  const regenerateRef = useRef<AbortController | null>(null);
+
+  const handleResume = async (app: ApplicationLog) => {
+    if (!onResumePipeline || resumingId) return;
+    setResumingId(app.id);
+    try {
+      await onResumePipeline(app);
+    } finally {
+      setResumingId(null);
+    }
+  };
+
+  const handleRegenerate = async (app: ApplicationLog) => {
+    if (!onRegenerateCoverLetter || regeneratingId) return;
+    const controller = new AbortController();
+    regenerateRef.current = controller;
+    setRegeneratingId(app.id);
+    setLetterDraft('');
+    try {
+      await onRegenerateCoverLetter(app, setLetterDraft, controller.signal);
+    } finally {
+      regenerateRef.current = null;
+      setRegeneratingId(null);
+      setLetterDraft('');
+    }
+  };
+
+  // Closing the letter stops a regeneration still streaming
+  const closeCoverLetter = () => {
+    regenerateRef.current?.abort();
+    setSelectedCL(null);
+  };
+
+  // Modals follow the live application so restores and regenerations show immediately
+  const liveResumeApp = selectedResume ? applications.find(a => a.id === selectedResume.id) || selectedResume : null;
+  const clArtifact = selectedCL ? findArtifact(artifacts, 'cover_letter', selectedCL.app.jobId) : undefined;
+  const resumeArtifact = liveResumeApp ? findArtifact(artifacts, 'tailored_resume', liveResumeApp.jobId) : undefined;
+
+  const renderSync = (app: ApplicationLog) => {
+    if (app.sync?.status === 'failed') {
+      return (
+        <div className="flex gap-2 items-center text-[9px] font-black uppercase tracking-widest mt-1" title={app.sync.error}>
+          <span className="text-red-500">Not Saved</span>
+          {onRetrySync && <button onClick={() => onRetrySync(app)} className="text-indigo-600 hover:underline">Retry</button>}
+        </div>
+      );
+    }
+    if (app.sync?.status === 'saving') {
+      return <div className="text-[9px] font-black uppercase tracking-widest mt-1 text-slate-300 animate-pulse">Saving...</div>;
+    }
+    if (app.sync?.status === 'queued') {
+      return <div className="text-[9px] font-black uppercase tracking-widest mt-1 text-amber-500" title={app.sync.error}>Waiting to sync</div>;
+    }
+    return null;
+  };
+
+  const nextOpenAction = (app: ApplicationLog) =>
+    (app.nextActions || []).filter(isOpen).sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())[0];
+
+  const handleAddAction = (app: ApplicationLog, kind: NextActionKind) => {
+    onNextActionsChange?.({ ...app, nextActions: [...(app.nextActions || []), createNextAction(kind)] });
+  };
+
+  const handleDrop = (stage: ApplicationStage) => {
+    const app = applications.find(a => a.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (app && onStageChange && getApplicationStage(app) !== stage) onStageChange(app, stage);
+  };
 
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         setSelectedResume(null);
-        setSelectedCL(null);
+        closeCoverLetter();
       }
     };
     window.addEventListener('keydown', handleEsc);
@@ -80,17 +180,83 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
           <h2 className="text-2xl font-bold text-slate-900">Application Audit Trail</h2>
           <p className="text-slate-500 text-sm">Monitor your autonomous agent's activity.</p>
         </div>
-        <div className="text-right">
-          <p className="text-3xl font-bold text-indigo-600">{applications?.length || 0}</p>
-          <p className="text-xs font-medium text-slate-400 uppercase tracking-tighter">Total Dispatches</p>
+        <div className="flex items-end gap-6">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['table', 'board'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <div className="text-right">
+            <p className="text-3xl font-bold text-indigo-600">{applications?.length || 0}</p>
+            <p className="text-xs font-medium text-slate-400 uppercase tracking-tighter">Total Dispatches</p>
+          </div>
         </div>
       </header>
 
+      {onNextActionsChange && <FollowUpPanel applications={applications || []} onNextActionsChange={onNextActionsChange} />}
+
+      {view === 'board' ? (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {APPLICATION_STAGES.map(stage => {
+            const cards = (applications || []).filter(app => getApplicationStage(app) === stage);
+            return (
+              <div
+                key={stage}
+                onDragOver={(e) => { if (onStageChange) { e.preventDefault(); setDropTarget(stage); } }}
+                onDragLeave={() => setDropTarget(prev => prev === stage ? null : prev)}
+                onDrop={(e) => { e.preventDefault(); handleDrop(stage); }}
+                className={`w-64 shrink-0 rounded-2xl border p-3 space-y-3 transition-all ${dropTarget === stage ? 'bg-indigo-50 border-indigo-300' : 'bg-slate-50 border-slate-200'}`}
+              >
+                <div className="flex items-center justify-between px-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${STAGE_ACCENTS[stage]}`}></span>
+                    <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{APPLICATION_STAGE_LABELS[stage]}</h3>
+                  </div>
+                  <span className="text-[10px] font-black text-slate-400">{cards.length}</span>
+                </div>
+                {cards.map(app => (
+                  <div
+                    key={app.id}
+                    draggable={!!onStageChange}
+                    onDragStart={(e) => { e.dataTransfer.setData('text/plain', app.id); e.dataTransfer.effectAllowed = 'move'; setDraggingId(app.id); }}
+                    onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+                    className={`bg-white rounded-xl border border-slate-200 p-4 shadow-sm space-y-2 ${onStageChange ? 'cursor-grab active:cursor-grabbing' : ''} ${draggingId === app.id ? 'opacity-40' : ''}`}
+                  >
+                    <div>
+                      <div className="font-bold text-slate-800 text-sm leading-tight">{app.jobTitle}</div>
+                      <div className="text-xs text-slate-500">{app.company}</div>
+                      {renderSync(app)}
+                    </div>
+                    <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+                      <span className="text-slate-400">{daysSince(getStageEnteredAt(app))}d in stage</span>
+                      <div className="flex gap-2">
+                        <button onClick={() => setSelectedResume(app)} className="text-indigo-600 hover:underline">Resume</button>
+                        <button onClick={() => setSelectedCL({ text: app.coverLetter || '', app })} className="text-slate-400 hover:underline">Letter</button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {cards.length === 0 && (
+                  <div className="py-6 text-center text-slate-300 font-black uppercase tracking-widest text-[9px]">Empty</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
         <table className="w-full text-left">
           <thead className="bg-slate-50 border-b border-slate-200">
             <tr>
               <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Mission Target</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Stage</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Next Action</th>
               <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Location</th>
               <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Artifacts</th>
             </tr>
@@ -101,6 +267,50 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                 <td className="px-6 py-4">
                   <div className="font-bold text-slate-800">{app.jobTitle}</div>
                   <div className="text-xs text-slate-500">{app.company}</div>
+                  {app.status !== ApplicationStatus.COMPLETED && (
+                    <div className={`text-[9px] font-black uppercase tracking-widest mt-1 ${app.status === ApplicationStatus.FAILED || app.status === ApplicationStatus.RISK_HALT ? 'text-red-500' : 'text-indigo-500'}`} title={app.pipeline?.error}>
+                      {app.status}
+                    </div>
+                  )}
+                  {renderSync(app)}
+                </td>
+                <td className="px-6 py-4">
+                  {onStageChange ? (
+                    <select
+                      value={getApplicationStage(app)}
+                      onChange={(e) => onStageChange(app, e.target.value as ApplicationStage)}
+                      className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-black text-slate-600 uppercase tracking-widest outline-none"
+                    >
+                      {APPLICATION_STAGES.map(stage => <option key={stage} value={stage}>{APPLICATION_STAGE_LABELS[stage]}</option>)}
+                    </select>
+                  ) : (
+                    <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">{APPLICATION_STAGE_LABELS[getApplicationStage(app)]}</span>
+                  )}
+                </td>
+                <td className="px-6 py-4">
+                  {(() => {
+                    const action = nextOpenAction(app);
+                    return action ? (
+                      <div className="space-y-1">
+                        <div className="text-xs font-bold text-slate-700">{NEXT_ACTION_LABELS[action.kind]}</div>
+                        <div className="flex gap-2 items-center text-[9px] font-black uppercase tracking-widest">
+                          <span className={isOverdue(action) ? 'text-red-500' : 'text-slate-400'}>{new Date(action.dueAt).toLocaleDateString()}</span>
+                          {onNextActionsChange && <button onClick={() => onNextActionsChange(completeAction(app, action.id))} className="text-emerald-600 hover:underline">Done</button>}
+                        </div>
+                      </div>
+                    ) : onNextActionsChange ? (
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && handleAddAction(app, e.target.value as NextActionKind)}
+                        className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-black text-slate-400 uppercase tracking-widest outline-none"
+                      >
+                        <option value="">+ Add</option>
+                        {(Object.keys(NEXT_ACTION_LABELS) as NextActionKind[]).map(kind => <option key={kind} value={kind}>{NEXT_ACTION_LABELS[kind]}</option>)}
+                      </select>
+                    ) : (
+                      <span className="text-[10px] text-slate-300 font-bold">—</span>
+                    );
+                  })()}
                 </td>
                 <td className="px-6 py-4">
                   <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-1 rounded">{app.location || "Remote"}</span>
@@ -110,29 +320,35 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                     <button onClick={() => setSelectedResume(app)} className="text-indigo-600 hover:underline">Resume</button>
                     <button onClick={() => setSelectedCL({ text: app.coverLetter || '', app })} className="text-slate-400 hover:underline">Letter</button>
                     {app.url && <a href={app.url} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-indigo-600">URL</a>}
+                    {onResumePipeline && isResumable(app) && (
+                      <button onClick={() => handleResume(app)} disabled={!!resumingId} className="text-amber-600 hover:underline disabled:opacity-50">
+                        {resumingId === app.id ? 'Resuming...' : 'Resume'}
+                      </button>
+                    )}
                   </div>
                 </td>
               </tr>
             ))}
             {(!applications || applications.length === 0) && (
               <tr>
-                <td colSpan={3} className="px-6 py-12 text-center text-slate-400 font-bold uppercase tracking-widest text-[10px]">No Dispatches Recorded</td>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 font-bold uppercase tracking-widest text-[10px]">No Dispatches Recorded</td>
               </tr>
             )}
           </tbody>
         </table>
       </div>
+      )}
 
-      {selectedResume && (
+      {liveResumeApp && (
         <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 md:p-8" onClick={() => setSelectedResume(null)}>
           <div className="bg-white rounded-[2rem] w-full max-w-6xl h-[90vh] overflow-hidden flex flex-col shadow-2xl animate-in zoom-in-95" onClick={e => e.stopPropagation()}>
             <div className="p-6 bg-slate-900 text-white flex justify-between items-center">
               <div className="flex items-center gap-4">
                 <div className="w-10 h-10 rounded-xl bg-indigo-600 flex items-center justify-center"><Icons.Briefcase /></div>
-                <h3 className="font-bold">Tailored Artifact: {selectedResume.company}</h3>
+                <h3 className="font-bold">Tailored Artifact: {liveResumeApp.company}</h3>
               </div>
               <div className="flex gap-3">
-                <button onClick={() => downloadResumePDF(selectedResume)} className="bg-indigo-600 px-4 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-indigo-500 transition-all">Download PDF</button>
+                <button onClick={() => downloadResumePDF(liveResumeApp)} className="bg-indigo-600 px-4 py-2 rounded-xl text-[10px] font-black uppercase hover:bg-indigo-500 transition-all">Download PDF</button>
                 <button onClick={() => setSelectedResume(null)} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close /></button>
               </div>
             </div>
@@ -146,12 +362,12 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                     <div className="space-y-8">
                       <section>
                         <h2 className="text-[10px] font-black uppercase text-indigo-600 tracking-widest mb-3">Tailored Summary</h2>
-                        <p className="text-sm leading-relaxed text-slate-700">{selectedResume.mutatedResume?.summary}</p>
+                        <p className="text-sm leading-relaxed text-slate-700">{liveResumeApp.mutatedResume?.summary}</p>
                       </section>
                       <section>
                         <h2 className="text-[10px] font-black uppercase text-indigo-600 tracking-widest mb-4">Mutated Experience</h2>
                         <div className="space-y-6">
-                          {selectedResume.mutatedResume?.experience?.map((exp, i) => (
+                          {liveResumeApp.mutatedResume?.experience?.map((exp, i) => (
                             <div key={i}>
                               <div className="flex justify-between items-start mb-1">
                                 <h4 className="font-bold text-slate-900">{exp.role}</h4>
@@ -172,16 +388,16 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                <div className="space-y-6">
                  <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
                     <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Dispatch Verification</h3>
-                    {selectedResume.verification?.virtualScreenshot && (
+                    {liveResumeApp.verification?.virtualScreenshot && (
                       <div className="mb-4 rounded-xl overflow-hidden border border-slate-100 shadow-sm">
-                        <img src={selectedResume.verification.virtualScreenshot} alt="Verification Receipt" className="w-full h-auto" />
+                        <img src={liveResumeApp.verification.virtualScreenshot} alt="Verification Receipt" className="w-full h-auto" />
                       </div>
                     )}
                     <div className="space-y-4">
                       <div className="p-3 bg-slate-50 rounded-xl">
                         <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Neural Telemetry</p>
                         <ul className="mt-2 space-y-1">
-                          {selectedResume.verification?.networkLogs?.slice(0, 4).map((log, i) => (
+                          {liveResumeApp.verification?.networkLogs?.slice(0, 4).map((log, i) => (
                             <li key={i} className="text-[9px] font-mono text-slate-500 truncate">>> {log}</li>
                           ))}
                         </ul>
@@ -189,11 +405,12 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                       <div className="grid grid-cols-2 gap-2">
                         <div className="p-3 bg-slate-50 rounded-xl">
                            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight">Status</p>
-                           <p className="text-xl font-black text-emerald-600">{selectedResume.verification?.serverStatusCode || 201}</p>
+                           <p className="text-xl font-black text-emerald-600">{liveResumeApp.verification?.serverStatusCode || 201}</p>
                         </div>
                         <div className="p-3 bg-slate-50 rounded-xl">
                            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight">ATS Gain</p>
-                           <p className="text-xl font-black text-indigo-600">+{selectedResume.mutationReport?.atsScoreEstimate || 0}%</p>
+                           <p className="text-xl font-black text-indigo-600">+{(liveResumeApp.mutationReport?.atsScoreEstimate || 0) - (liveResumeApp.mutationReport?.atsScoreBefore || 0)}%</p>
+                           <p className="text-[9px] font-bold text-slate-400">{liveResumeApp.mutationReport?.atsScoreEstimate || 0}% keyword coverage</p>
                         </div>
                       </div>
                     </div>
@@ -202,14 +419,61 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
                  <div className="bg-slate-900 p-6 rounded-2xl shadow-xl text-white">
                     <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Intelligence Report</h3>
                     <p className="text-[11px] leading-relaxed text-slate-400 italic mb-4">
-                      "Autonomous agent successfully optimized artifacts. Keywords injected: {selectedResume.mutationReport?.keywordsInjected?.length || 0}."
+                      "Autonomous agent successfully optimized artifacts. Keywords injected: {liveResumeApp.mutationReport?.keywordsInjected?.length || 0}."
                     </p>
                     <div className="flex flex-wrap gap-1">
-                      {selectedResume.mutationReport?.keywordsInjected?.slice(0, 8).map((k, i) => (
+                      {liveResumeApp.mutationReport?.keywordsInjected?.slice(0, 8).map((k, i) => (
                         <span key={i} className="text-[8px] font-bold bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded border border-indigo-500/30 uppercase">{k}</span>
                       ))}
                     </div>
                  </div>
+
+                 {liveResumeApp.mutationReport?.diff && (
+                   <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Mutation Diff</h3>
+                      {(liveResumeApp.mutationReport.diff.skillsAdded.length > 0 || liveResumeApp.mutationReport.diff.skillsRemoved.length > 0) && (
+                        <div className="flex flex-wrap gap-1">
+                          {liveResumeApp.mutationReport.diff.skillsAdded.map((s, i) => (
+                            <span key={`a${i}`} className="text-[8px] font-bold bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded border border-emerald-100">+ {s}</span>
+                          ))}
+                          {liveResumeApp.mutationReport.diff.skillsRemoved.map((s, i) => (
+                            <span key={`r${i}`} className="text-[8px] font-bold bg-red-50 text-red-600 px-2 py-0.5 rounded border border-red-100 line-through">{s}</span>
+                          ))}
+                        </div>
+                      )}
+                      {liveResumeApp.mutationReport.diff.summaryAfter && (
+                        <div className="space-y-1">
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Summary</p>
+                          <p className="text-[10px] text-red-500 line-through leading-relaxed">{liveResumeApp.mutationReport.diff.summaryBefore}</p>
+                          <p className="text-[10px] text-emerald-700 leading-relaxed">{liveResumeApp.mutationReport.diff.summaryAfter}</p>
+                        </div>
+                      )}
+                      {liveResumeApp.mutationReport.diff.entries?.map((e, i) => (
+                        <div key={`e${i}`} className="space-y-1 border-t border-slate-100 pt-3">
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{e.kind} {e.section === 'projects' ? 'project' : 'role'} • {e.title}</p>
+                          {e.lines.map((line, j) => (
+                            <p key={j} className={`text-[10px] leading-relaxed ${e.kind === 'added' ? 'text-emerald-700' : 'text-red-500 line-through'}`}>{line}</p>
+                          ))}
+                        </div>
+                      ))}
+                      {liveResumeApp.mutationReport.diff.bullets.map((b, i) => (
+                        <div key={i} className="space-y-1 border-t border-slate-100 pt-3">
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{b.kind} • {b.company}</p>
+                          {b.before && <p className="text-[10px] text-red-500 line-through leading-relaxed">{b.before}</p>}
+                          {b.after && <p className="text-[10px] text-emerald-700 leading-relaxed">{b.after}</p>}
+                        </div>
+                      ))}
+                      {liveResumeApp.mutationReport.diff.bullets.length === 0 && !liveResumeApp.mutationReport.diff.entries?.length && !liveResumeApp.mutationReport.diff.summaryAfter && (
+                        <p className="text-[10px] text-slate-400">No wording changes.</p>
+                      )}
+                   </div>
+                 )}
+
+                 {resumeArtifact && onArtifactChange && (
+                   <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+                     <ArtifactHistory artifact={resumeArtifact} onChange={onArtifactChange} />
+                   </div>
+                 )}
                </div>
             </div>
           </div>
@@ -217,15 +481,40 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, p
       )}
 
       {selectedCL && (
-        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-[100] flex items-center justify-center p-4" onClick={() => setSelectedCL(null)}>
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-[100] flex items-center justify-center p-4" onClick={closeCoverLetter}>
           <div className="bg-white rounded-[2rem] w-full max-w-xl shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8" onClick={e => e.stopPropagation()}>
             <div className="p-6 bg-indigo-600 text-white flex justify-between items-center">
-              <h3 className="font-bold">Cover Letter Artifact</h3>
-              <button onClick={() => setSelectedCL(null)} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close /></button>
-            </div>
-            <div className="p-10 whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-700 max-h-[60vh] overflow-y-auto">
-              {selectedCL.text}
+              <div>
+                <h3 className="font-bold">Cover Letter Artifact</h3>
+                {selectedCL.app.pipeline?.coverLetterStyle && (
+                  <p className="text-[9px] font-black uppercase tracking-widest text-indigo-200">{selectedCL.app.pipeline.coverLetterStyle} Style</p>
+                )}
+              </div>
+              <button onClick={closeCoverLetter} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close /></button>
             </div>
+            {clArtifact && onArtifactChange ? (
+              <div className="p-6 max-h-[70vh] overflow-y-auto">
+                <ArtifactHistory
+                  artifact={clArtifact}
+                  onChange={onArtifactChange}
+                  onRegenerate={onRegenerateCoverLetter && selectedCL.app.pipeline ? () => handleRegenerate(selectedCL.app) : undefined}
+                  isRegenerating={regeneratingId === selectedCL.app.id}
+                />
+                {regeneratingId === selectedCL.app.id && (
+                  <div className="mt-4 p-5 bg-indigo-50/50 rounded-2xl border border-indigo-100 space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest animate-pulse">Drafting New Version...</span>
+                      <button onClick={() => regenerateRef.current?.abort()} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:underline">Stop</button>
+                    </div>
+                    {letterDraft && <p className="whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-700">{letterDraft}</p>}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="p-10 whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-700 max-h-[60vh] overflow-y-auto">
+                {selectedCL.text || 'No cover letter has been generated for this application yet.'}
+              </div>
+            )}
           </div>
         </div>
       )}
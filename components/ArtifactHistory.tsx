@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Artifact } from '../types';
+import { addVersion, restoreVersion, compareVersions, currentContent, ARTIFACT_KIND_LABELS } from '../services/artifacts';
+
+interface ArtifactHistoryProps {
+  artifact: Artifact;
+  onChange: (artifact: Artifact) => void;
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+}
+
+const ArtifactHistory: React.FC<ArtifactHistoryProps> = ({ artifact, onChange, onRegenerate, isRegenerating }) => {
+  const isText = typeof currentContent(artifact) === 'string';
+  const [draft, setDraft] = useState('');
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+
+  useEffect(() => {
+    const content = currentContent(artifact);
+    setDraft(typeof content === 'string' ? content : '');
+  }, [artifact.id, artifact.currentVersion]);
+
+  const versions = [...artifact.versions].sort((a, b) => b.version - a.version);
+  const diff = compareFrom !== null ? compareVersions(artifact, compareFrom, artifact.currentVersion) : null;
+  const isDirty = isText && draft !== currentContent(artifact);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {ARTIFACT_KIND_LABELS[artifact.kind]} History • v{artifact.currentVersion}
+        </h3>
+        {onRegenerate && (
+          <button
+            onClick={onRegenerate}
+            disabled={isRegenerating}
+            className="text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:underline disabled:opacity-50"
+          >
+            {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        )}
+      </div>
+
+      {isText && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            className="w-full h-48 p-4 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-700 leading-relaxed outline-none resize-y focus:ring-4 focus:ring-indigo-500/10"
+          />
+          {isDirty && (
+            <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest">
+              <button onClick={() => onChange(addVersion(artifact, draft, 'edited'))} className="text-emerald-600 hover:underline">Save as v{Math.max(...artifact.versions.map(v => v.version)) + 1}</button>
+              <button onClick={() => setDraft(currentContent(artifact) as string)} className="text-slate-400 hover:underline">Discard</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl overflow-hidden">
+        {versions.map(v => (
+          <div key={v.version} className={`p-3 flex justify-between items-start gap-3 ${v.version === artifact.currentVersion ? 'bg-indigo-50/50' : ''}`}>
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-slate-700">
+                v{v.version} <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{v.origin}{v.restoredFrom ? ` from v${v.restoredFrom}` : ''}</span>
+              </p>
+              <p className="text-[9px] text-slate-400 font-bold">{new Date(v.createdAt).toLocaleString()}</p>
+              {v.inputs && (
+                <p className="text-[9px] text-slate-400 font-mono truncate" title={JSON.stringify(v.inputs)}>
+                  {Object.entries(v.inputs).filter(([, value]) => value !== undefined).map(([k, value]) => `${k}=${Array.isArray(value) ? value.join('|') : value}`).join(' ')}
+                </p>
+              )}
+            </div>
+            {v.version !== artifact.currentVersion && (
+              <div className="flex gap-3 text-[9px] font-black uppercase tracking-widest shrink-0">
+                <button onClick={() => setCompareFrom(compareFrom === v.version ? null : v.version)} className={compareFrom === v.version ? 'text-indigo-600' : 'text-slate-400 hover:underline'}>
+                  {compareFrom === v.version ? 'Comparing' : 'Compare'}
+                </button>
+                <button onClick={() => { onChange(restoreVersion(artifact, v.version)); setCompareFrom(null); }} className="text-amber-600 hover:underline">Restore</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {diff && compareFrom !== null && (
+        <div className="bg-slate-50 border border-slate-100 rounded-xl p-4 space-y-2">
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">v{compareFrom} → v{artifact.currentVersion}</p>
+          {diff.text?.map((line, i) => (
+            <p key={i} className={`text-[10px] leading-relaxed whitespace-pre-wrap ${line.kind === 'added' ? 'text-emerald-700 bg-emerald-50' : line.kind === 'removed' ? 'text-red-500 line-through bg-red-50' : 'text-slate-500'}`}>
+              {line.text || ' '}
+            </p>
+          ))}
+          {diff.resume && (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {diff.resume.skillsAdded.map((s, i) => <span key={`a${i}`} className="text-[8px] font-bold bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded border border-emerald-100">+ {s}</span>)}
+                {diff.resume.skillsRemoved.map((s, i) => <span key={`r${i}`} className="text-[8px] font-bold bg-red-50 text-red-600 px-2 py-0.5 rounded border border-red-100 line-through">{s}</span>)}
+              </div>
+              {diff.resume.summaryAfter && (
+                <div className="space-y-1">
+                  <p className="text-[10px] text-red-500 line-through leading-relaxed">{diff.resume.summaryBefore}</p>
+                  <p className="text-[10px] text-emerald-700 leading-relaxed">{diff.resume.summaryAfter}</p>
+                </div>
+              )}
+              {diff.resume.entries?.map((e, i) => (
+                <div key={`e${i}`} className="space-y-1 border-t border-slate-100 pt-2">
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{e.kind} {e.section === 'projects' ? 'project' : 'role'} • {e.title}</p>
+                  {e.lines.map((line, j) => (
+                    <p key={j} className={`text-[10px] leading-relaxed ${e.kind === 'added' ? 'text-emerald-700' : 'text-red-500 line-through'}`}>{line}</p>
+                  ))}
+                </div>
+              ))}
+              {diff.resume.bullets.map((b, i) => (
+                <div key={i} className="space-y-1 border-t border-slate-100 pt-2">
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{b.kind} • {b.company}</p>
+                  {b.before && <p className="text-[10px] text-red-500 line-through leading-relaxed">{b.before}</p>}
+                  {b.after && <p className="text-[10px] text-emerald-700 leading-relaxed">{b.after}</p>}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtifactHistory;
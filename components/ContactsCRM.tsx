@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Contact, ContactChannel, OutreachMessage, OutreachStatus } from '../types';
+import { Icons } from '../constants';
+import { createContact, updateContact, contactTimeline } from '../services/contacts';
+
+interface ContactsCRMProps {
+  contacts: Contact[];
+  outreach: OutreachMessage[];
+  onSave: (contact: Contact) => void;
+  onDelete: (id: string) => void;
+  onOutreachStatus: (messageId: string, status: Exclude<OutreachStatus, 'draft'>) => void;
+}
+
+const CHANNELS: ContactChannel[] = ['LinkedIn', 'Email', 'Phone', 'Other'];
+
+const STATUS_STYLES: Record<OutreachStatus, string> = {
+  draft: 'bg-slate-100 text-slate-500',
+  sent: 'bg-indigo-50 text-indigo-600',
+  replied: 'bg-emerald-50 text-emerald-600'
+};
+
+const EMPTY_FORM = { name: '', company: '', role: '', channel: 'LinkedIn' as ContactChannel, handle: '' };
+
+const ContactsCRM: React.FC<ContactsCRMProps> = ({ contacts, outreach, onSave, onDelete, onOutreachStatus }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+
+  const selected = contacts.find(c => c.id === selectedId) || null;
+  const selectedMessages = outreach.filter(m => m.contactId === selectedId);
+
+  const handleCreate = () => {
+    if (!form.name.trim() || !form.company.trim()) return;
+    const contact = createContact({ ...form, name: form.name.trim(), company: form.company.trim(), handle: form.handle.trim() || undefined });
+    onSave(contact);
+    setForm(EMPTY_FORM);
+    selectContact(contact);
+  };
+
+  const selectContact = (contact: Contact) => {
+    setSelectedId(contact.id);
+    setNotesDraft(contact.notes || '');
+  };
+
+  const saveNotes = () => {
+    if (!selected || (selected.notes || '') === notesDraft) return;
+    onSave(updateContact(selected, { notes: notesDraft }));
+  };
+
+  const inputClass = "px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl outline-none font-bold text-sm text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      <div className="bg-white rounded-[2rem] p-8 border border-slate-200 shadow-sm space-y-4">
+        <h2 className="text-xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+          <Icons.User /> Network
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+          <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Name" className={inputClass} />
+          <input value={form.company} onChange={e => setForm({ ...form, company: e.target.value })} placeholder="Company" className={inputClass} />
+          <input value={form.role} onChange={e => setForm({ ...form, role: e.target.value })} placeholder="Role" className={inputClass} />
+          <select value={form.channel} onChange={e => setForm({ ...form, channel: e.target.value as ContactChannel })} className={inputClass}>
+            {CHANNELS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input value={form.handle} onChange={e => setForm({ ...form, handle: e.target.value })} placeholder="Profile URL / email" className={inputClass} />
+          <button
+            onClick={handleCreate}
+            disabled={!form.name.trim() || !form.company.trim()}
+            className="bg-slate-900 hover:bg-black text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 transition-all"
+          >
+            Add Contact
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100 overflow-hidden h-fit">
+          {contacts.map(contact => {
+            const messages = outreach.filter(m => m.contactId === contact.id);
+            return (
+              <button
+                key={contact.id}
+                onClick={() => selectContact(contact)}
+                className={`w-full text-left p-4 transition-colors ${selectedId === contact.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <div className="font-bold text-slate-800 text-sm">{contact.name}</div>
+                <div className="text-xs text-slate-500">{contact.role ? `${contact.role} • ` : ''}{contact.company}</div>
+                <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                  {contact.channel} • {messages.length} message{messages.length === 1 ? '' : 's'}
+                  {messages.some(m => m.status === 'replied') && <span className="text-emerald-600"> • Replied</span>}
+                </div>
+              </button>
+            );
+          })}
+          {contacts.length === 0 && (
+            <div className="p-12 text-center text-slate-300 font-black uppercase tracking-widest text-[10px]">No Contacts Yet</div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {selected ? (
+            <>
+              <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 space-y-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-black text-slate-900">{selected.name}</h3>
+                    <p className="text-xs text-slate-500 font-bold">{selected.role ? `${selected.role} at ` : ''}{selected.company}</p>
+                    {selected.handle && (
+                      selected.handle.startsWith('http')
+                        ? <a href={selected.handle} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-indigo-600 hover:underline">{selected.handle}</a>
+                        : <p className="text-[10px] font-bold text-indigo-600">{selected.handle}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => { onDelete(selected.id); setSelectedId(null); }}
+                    className="text-[10px] font-black text-slate-300 hover:text-red-500 uppercase tracking-widest"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <textarea
+                  value={notesDraft}
+                  onChange={e => setNotesDraft(e.target.value)}
+                  onBlur={saveNotes}
+                  placeholder="Notes..."
+                  className="w-full h-24 p-4 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none resize-none focus:ring-4 focus:ring-indigo-500/10"
+                />
+              </div>
+
+              <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 space-y-3">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Outreach</h3>
+                {selectedMessages.map(m => (
+                  <div key={m.id} className="border border-slate-100 rounded-xl p-4 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[9px] font-black text-indigo-400 uppercase tracking-widest">
+                        {m.platform}{m.jobTitle ? ` • ${m.jobTitle}` : ''}
+                      </span>
+                      <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${STATUS_STYLES[m.status]}`}>{m.status}</span>
+                    </div>
+                    <p className="text-xs text-slate-600 italic leading-relaxed whitespace-pre-wrap">"{m.message}"</p>
+                    <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest">
+                      <button onClick={() => navigator.clipboard.writeText(m.message)} className="text-slate-400 hover:underline">Copy</button>
+                      {m.status === 'draft' && <button onClick={() => onOutreachStatus(m.id, 'sent')} className="text-indigo-600 hover:underline">Mark Sent</button>}
+                      {m.status !== 'replied' && <button onClick={() => onOutreachStatus(m.id, 'replied')} className="text-emerald-600 hover:underline">Mark Replied</button>}
+                    </div>
+                  </div>
+                ))}
+                {selectedMessages.length === 0 && (
+                  <p className="text-[10px] text-slate-300 font-bold uppercase tracking-widest">Attach outreach drafts from Discovery.</p>
+                )}
+              </div>
+
+              <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Timeline</h3>
+                <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+                  {contactTimeline(selected).map((event, i) => (
+                    <li key={i} className="ml-4">
+                      <span className={`absolute -left-1.5 w-3 h-3 rounded-full border-2 border-white ${event.kind === 'replied' ? 'bg-emerald-500' : event.kind === 'sent' ? 'bg-indigo-500' : 'bg-slate-300'}`}></span>
+                      <p className="text-xs font-bold text-slate-700">{event.text}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{new Date(event.at).toLocaleString()}</p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          ) : (
+            <div className="p-12 text-center text-slate-300 font-black uppercase tracking-widest text-[10px]">Select a contact</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactsCRM;
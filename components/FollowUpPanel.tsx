@@ -0,0 +1,47 @@
+import React from 'react';
+import { ApplicationLog } from '../types';
+import { getDueActions, isOverdue, completeAction, snoozeAction, NEXT_ACTION_LABELS } from '../services/followUps';
+
+interface FollowUpPanelProps {
+  applications: ApplicationLog[];
+  onNextActionsChange: (app: ApplicationLog) => void;
+}
+
+const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ applications, onNextActionsChange }) => {
+  const due = getDueActions(applications);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Due Today</h3>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${due.length > 0 ? 'text-amber-600' : 'text-slate-300'}`}>{due.length} Pending</span>
+      </div>
+      {due.length > 0 ? (
+        <div className="divide-y divide-slate-100">
+          {due.map(({ app, action }) => (
+            <div key={action.id} className="flex justify-between items-center gap-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-800 truncate">{NEXT_ACTION_LABELS[action.kind]} • {app.company}</p>
+                <p className="text-[10px] text-slate-400 font-bold truncate">
+                  {app.jobTitle}
+                  {' • '}
+                  <span className={isOverdue(action) ? 'text-red-500' : 'text-amber-600'}>
+                    {isOverdue(action) ? `Overdue since ${new Date(action.dueAt).toLocaleDateString()}` : 'Due today'}
+                  </span>
+                </p>
+              </div>
+              <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest shrink-0">
+                <button onClick={() => onNextActionsChange(completeAction(app, action.id))} className="text-emerald-600 hover:underline">Done</button>
+                <button onClick={() => onNextActionsChange(snoozeAction(app, action.id))} className="text-slate-400 hover:underline">Snooze 1d</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-300 font-bold uppercase tracking-widest">Nothing due. You're caught up.</p>
+      )}
+    </div>
+  );
+};
+
+export default FollowUpPanel;
@@ -1,6 +1,6 @@
 
-import React, { useState, useCallback } from 'react';
-import { searchFreelanceGigs, generateProposal } from '../services/gemini.ts';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { searchFreelanceGigs, streamProposal } from '../services/gemini.ts';
 import { Gig, UserProfile } from '../types.ts';
 import { Icons } from '../constants.tsx';
 
@@ -16,6 +16,10 @@ const FreelanceGigs: React.FC<FreelanceGigsProps> = ({ profile }) => {
   const [proposal, setProposal] = useState<string | null>(null);
   const [isBidding, setIsBidding] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
+  const bidRef = useRef<AbortController | null>(null);
+
+  // Leaving the tab stops a proposal mid-draft
+  useEffect(() => () => bidRef.current?.abort(), []);
 
   const addLog = useCallback((msg: string) => setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev]), []);
 
@@ -36,18 +40,25 @@ const FreelanceGigs: React.FC<FreelanceGigsProps> = ({ profile }) => {
   };
 
   const startBidding = async (gig: Gig) => {
+    // Picking another project abandons the draft in progress
+    bidRef.current?.abort();
+    const controller = new AbortController();
+    bidRef.current = controller;
     setActiveGig(gig);
     setIsBidding(true);
     setProposal(null);
     addLog(`Drafting high-conversion proposal for: ${gig.title}`);
     try {
-      const p = await generateProposal(gig, profile);
+      const p = await streamProposal(gig, profile, setProposal, { signal: controller.signal });
       setProposal(p);
       addLog(`Proposal successfully drafted based on your expertise.`);
     } catch (e: any) {
-      addLog(`Failed to draft proposal: ${e.message}`);
+      addLog(controller.signal.aborted ? `Proposal for ${gig.title} stopped.` : `Failed to draft proposal: ${e.message}`);
     } finally {
-      setIsBidding(false);
+      if (bidRef.current === controller) {
+        bidRef.current = null;
+        setIsBidding(false);
+      }
     }
   };
 
@@ -142,28 +153,39 @@ const FreelanceGigs: React.FC<FreelanceGigsProps> = ({ profile }) => {
                 <div className="space-y-4">
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 font-serif text-sm leading-relaxed text-slate-700 max-h-[250px] overflow-y-auto italic">
                     {proposal}
+                    {isBidding && <span className="inline-block w-1.5 h-4 bg-indigo-500 ml-1 align-middle animate-pulse"></span>}
                   </div>
-                  <div className="flex flex-col gap-2">
-                    <button 
-                      onClick={copyProposal}
-                      className="w-full bg-indigo-600 text-white p-4 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-2"
+                  {isBidding ? (
+                    <button
+                      onClick={() => bidRef.current?.abort()}
+                      className="w-full border border-slate-200 text-slate-600 p-4 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all"
                     >
-                      <Icons.History /> Copy Proposal & Open {activeGig.platform}
+                      Stop Drafting
                     </button>
-                    <a 
-                      href={activeGig.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-center text-[10px] font-bold text-slate-400 uppercase py-2 hover:underline"
-                    >
-                      View Original Posting
-                    </a>
-                  </div>
+                  ) : (
+                    <div className="flex flex-col gap-2">
+                      <button 
+                        onClick={copyProposal}
+                        className="w-full bg-indigo-600 text-white p-4 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-2"
+                      >
+                        <Icons.History /> Copy Proposal & Open {activeGig.platform}
+                      </button>
+                      <a 
+                        href={activeGig.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-center text-[10px] font-bold text-slate-400 uppercase py-2 hover:underline"
+                      >
+                        View Original Posting
+                      </a>
+                    </div>
+                  )}
                 </div>
               ) : isBidding ? (
                 <div className="py-12 text-center space-y-4">
                   <div className="w-8 h-8 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mx-auto"></div>
                   <p className="text-[10px] font-black text-indigo-600 uppercase animate-pulse">Drafting proposal...</p>
+                  <button onClick={() => bidRef.current?.abort()} className="text-[10px] font-bold text-slate-400 uppercase hover:underline">Stop</button>
                 </div>
               ) : (
                 <p className="text-xs text-slate-400 text-center py-10 italic">Select a project on the left to start bidding.</p>
@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
+import { Modality } from '@google/genai';
 import { UserProfile, InterviewScorecard, InterviewSession, TranscriptAnnotation } from '../types';
-import { encodeAudio, decodeAudio, decodeAudioData, evaluateInterview } from '../services/gemini';
+import { encodeAudio, decodeAudio, decodeAudioData, evaluateInterview, getAi } from '../services/gemini';
+import { getModel } from '../services/config';
 import { Icons } from '../constants';
 
 interface InterviewSimulatorProps {
@@ -38,14 +39,21 @@ const InterviewSimulator: React.FC<InterviewSimulatorProps> = ({ profile, histor
     setSelectedSession(null);
     setTranscription([]);
     
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    let ai;
+    try {
+      ai = getAi();
+    } catch (e: any) {
+      setStatus('Error');
+      alert(e.message);
+      return;
+    }
     inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
     outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
     
     const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
     const sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      model: getModel('liveInterview'),
       callbacks: {
         onopen: () => {
           setStatus('Live');
@@ -129,8 +137,9 @@ const InterviewSimulator: React.FC<InterviewSimulatorProps> = ({ profile, histor
         scorecard: evalData
       };
       onSessionSave(newSession);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      alert(`Evaluation failed: ${e.message}`);
     } finally {
       setIsEvaluating(false);
     }
@@ -1,72 +1,204 @@
-import React, { useState, useCallback, useMemo } from 'react';
-// Fix: Removed non-existent and unused exports 'generateCoverLetter' and 'mutateResume' from gemini service import
-import { extractJobData, calculateMatchScore, searchJobsPro, getMarketInsights, generateOutreach } from '../services/gemini.ts';
-import { Job, UserProfile, ApplicationStatus, ApplicationLog, DiscoveredJob, CoverLetterStyle, VerificationProof, MarketInsights, TaskState, OutreachDraft } from '../types.ts';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { extractJobData, calculateMatchScore, getMarketInsights, generateOutreach } from '../services/gemini.ts';
+import { Job, UserProfile, ApplicationStatus, ApplicationLog, DiscoveredJob, CoverLetterStyle, VerificationProof, MarketInsights, TaskState, OutreachDraft, MatchResult, Contact, Artifact, JobFieldSource } from '../types.ts';
 import { Icons } from '../constants.tsx';
+import { PIPELINE_STAGES, STAGE_LABELS } from '../services/pipeline.ts';
+import { scoreAtsCoverage } from '../services/ats.ts';
+import { rankJobs, isBelowThreshold } from '../services/discovery.ts';
+import { markAppliedJobs } from '../services/jobIdentity.ts';
+import { createContact, contactsAtCompany } from '../services/contacts.ts';
+import { findArtifact, currentContent } from '../services/artifacts.ts';
+import ArtifactHistory from './ArtifactHistory';
 
 interface JobHunterProps {
   profile: UserProfile;
   activeStrategy: any;
   discoveredJobs: DiscoveredJob[];
-  onDiscoveredJobsUpdate: (jobs: DiscoveredJob[]) => void;
-  onApply: (log: ApplicationLog) => void;
+  applications: ApplicationLog[];
+  contacts: Contact[];
+  artifacts: Artifact[];
+  onAttachOutreach: (draft: OutreachDraft, job: Job, contact: Contact) => void;
+  onOutreachGenerated: (job: Job, drafts: OutreachDraft[]) => void;
+  onArtifactChange: (artifact: Artifact) => void;
+  onSearch: (query: string, signal?: AbortSignal) => Promise<void>;
+  onDispatch: (job: Job, trackId: string, style: CoverLetterStyle) => Promise<ApplicationLog | undefined>;
   onStrategyUpdate: (plan: any) => void;
   onProfileUpdate: (profile: UserProfile) => void;
   onTabSwitch?: (tab: string) => void;
   task: TaskState;
 }
 
-const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscoveredJobsUpdate, onApply, onTabSwitch, task }) => {
+const formatAge = (since: number) => {
+  const minutes = Math.round((Date.now() - since) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / 1440)}d ago`;
+};
+
+const FIELD_SOURCE_LABELS: Record<JobFieldSource, string> = {
+  'json-ld': 'Structured Data',
+  greenhouse: 'Greenhouse Page',
+  lever: 'Lever Page',
+  workday: 'Workday Page',
+  ashby: 'Ashby Page',
+  url: 'Posting URL',
+  llm: 'AI from Page Text'
+};
+
+const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, applications, contacts, artifacts, onAttachOutreach, onOutreachGenerated, onArtifactChange, onSearch, onDispatch, onTabSwitch, task }) => {
   const [jobInput, setJobInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentJob, setCurrentJob] = useState<Job | null>(null);
-  const [match, setMatch] = useState<any>(null);
+  const [match, setMatch] = useState<MatchResult | null>(null);
   const [marketInsights, setMarketInsights] = useState<MarketInsights | null>(null);
   const [outreach, setOutreach] = useState<OutreachDraft[]>([]);
+  const [attachedTo, setAttachedTo] = useState<Record<number, string>>({});
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
   const [automationStep, setAutomationStep] = useState<ApplicationStatus>(ApplicationStatus.PENDING);
   const [logs, setLogs] = useState<string[]>([]);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [dispatchError, setDispatchError] = useState<string | null>(null);
+  const [dispatchTrackId, setDispatchTrackId] = useState<string>(profile.resumeTracks?.[0]?.id || '');
+  const [dispatchStyle, setDispatchStyle] = useState<CoverLetterStyle>(CoverLetterStyle.MODERN);
+  const [isDispatching, setIsDispatching] = useState(false);
+  const [showAllJobs, setShowAllJobs] = useState(false);
+  const [scanTarget, setScanTarget] = useState('');
+  const scanRef = useRef<AbortController | null>(null);
+
+  // Leaving the tab cancels any scan still queued or in flight
+  useEffect(() => () => scanRef.current?.abort(), []);
 
   const addLog = useCallback((msg: string) => setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev]), []);
 
   const isSearching = task.status === 'running';
   const isSearchComplete = task.status === 'completed';
 
-  const processInput = async (inputOverride?: string) => {
+  // `refresh` skips cached extraction, scoring and insights
+  const processInput = async (inputOverride?: string, refresh = false) => {
     const target = inputOverride || jobInput;
     if (!target.trim() || isSearching) return;
     
+    const controller = new AbortController();
+    scanRef.current = controller;
+    const { signal } = controller;
+    const options = { signal, refresh };
     setIsProcessing(true);
+    setScanError(null);
     setOutreach([]);
+    setAttachedTo({});
+    setHistoryIndex(null);
     setMatch(null);
     
     try {
       if (target.toLowerCase().startsWith('http')) {
         setAutomationStep(ApplicationStatus.EXTRACTING);
-        const job = await extractJobData(target);
+        setScanTarget(target);
+        const job = await extractJobData(target, options);
         setCurrentJob(job);
         
         setAutomationStep(ApplicationStatus.MATCHING);
         const [res, insights, outreachDrafts] = await Promise.all([
-          calculateMatchScore(job, profile),
-          getMarketInsights(job.title),
-          generateOutreach(job, profile)
+          calculateMatchScore(job, profile, options),
+          getMarketInsights(job.title, options),
+          generateOutreach(job, profile, options)
         ]);
         
         setMatch(res);
+        if (res.trackId) setDispatchTrackId(res.trackId);
         setMarketInsights(insights);
         setOutreach(outreachDrafts);
+        onOutreachGenerated(job, outreachDrafts);
       } else {
-        const results = await searchJobsPro(target);
-        onDiscoveredJobsUpdate(results || []);
+        await onSearch(target, signal);
       }
     } catch (e: any) {
-      addLog(`Neural Scan Error: ${e.message}`);
+      addLog(signal.aborted ? 'Neural Scan cancelled.' : `Neural Scan Error: ${e.message}`);
+      if (!signal.aborted) setScanError(e.message);
     } finally {
+      if (scanRef.current === controller) scanRef.current = null;
       setIsProcessing(false);
       setAutomationStep(ApplicationStatus.PENDING);
     }
   };
 
+  const threshold = profile.preferences?.matchThreshold ?? 0;
+  const rankedJobs = useMemo(() => rankJobs(markAppliedJobs(discoveredJobs || [], applications)), [discoveredJobs, applications]);
+  const hiddenCount = rankedJobs.filter(j => isBelowThreshold(j, threshold)).length;
+  const visibleJobs = showAllJobs ? rankedJobs : rankedJobs.filter(j => !isBelowThreshold(j, threshold));
+
+  // Most recent pipeline run for the job currently under analysis
+  const activeRun = useMemo(
+    () => currentJob ? applications.find(a => a.pipeline?.job.id === currentJob.id) : undefined,
+    [applications, currentJob]
+  );
+
+  const localCoverage = useMemo(() => {
+    const track = profile.resumeTracks?.find(t => t.id === dispatchTrackId);
+    return currentJob && track ? scoreAtsCoverage(track.content, currentJob) : null;
+  }, [currentJob, dispatchTrackId, profile.resumeTracks]);
+
+  // Oldest cached answer behind the current analysis, if any of it came from the cache
+  const cachedSince = useMemo(() => {
+    const stamps = [currentJob?.cachedAt, match?.cachedAt, marketInsights?.cachedAt]
+      .filter((stamp): stamp is string => !!stamp)
+      .map(stamp => new Date(stamp).getTime());
+    return stamps.length ? Math.min(...stamps) : null;
+  }, [currentJob, match, marketInsights]);
+
+  // Extracted fields grouped by the method that produced them
+  const fieldsBySource = useMemo(() => {
+    const groups = new Map<JobFieldSource, string[]>();
+    Object.entries(currentJob?.fieldSources || {}).forEach(([field, source]) => {
+      groups.set(source, [...(groups.get(source) || []), field]);
+    });
+    return Array.from(groups);
+  }, [currentJob]);
+
+  const handleDispatch = async () => {
+    if (!currentJob || !dispatchTrackId || isDispatching) return;
+    setIsDispatching(true);
+    setDispatchError(null);
+    try {
+      const result = await onDispatch(currentJob, dispatchTrackId, dispatchStyle);
+      if (result) addLog(`Pipeline ${result.status}: ${result.jobTitle} @ ${result.company}`);
+    } catch (e: any) {
+      addLog(`Dispatch Error: ${e.message}`);
+      setDispatchError(e.message);
+    } finally {
+      setIsDispatching(false);
+    }
+  };
+
+  const handleAttach = (index: number, draft: OutreachDraft, value: string) => {
+    if (!currentJob || !value) return;
+    let contact = contacts.find(c => c.id === value);
+    if (value === 'new') {
+      const name = window.prompt(`Contact name (${draft.recipientRole || 'Hiring Manager'} at ${currentJob.company})`);
+      if (!name?.trim()) return;
+      contact = createContact({ name: name.trim(), company: currentJob.company, role: draft.recipientRole || '', channel: draft.platform });
+    }
+    if (!contact) return;
+    onAttachOutreach(draft, currentJob, contact);
+    setAttachedTo(prev => ({ ...prev, [index]: contact!.name }));
+  };
+
+  // Drafts show whichever artifact version is current, so edits and restores stick
+  const outreachArtifact = (draft: OutreachDraft) =>
+    currentJob ? findArtifact(artifacts, 'outreach_message', currentJob.id, draft.platform) : undefined;
+
+  const currentDraft = (draft: OutreachDraft): OutreachDraft => {
+    const artifact = outreachArtifact(draft);
+    const content = artifact && currentContent(artifact);
+    return typeof content === 'string' ? { ...draft, message: content } : draft;
+  };
+
+  // Contacts at the job's company are listed first
+  const contactOptions = useMemo(() => {
+    if (!currentJob) return contacts;
+    const atCompany = contactsAtCompany(contacts, currentJob.company);
+    return [...atCompany, ...contacts.filter(c => !atCompany.includes(c))];
+  }, [contacts, currentJob]);
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert("Outreach message copied to clipboard.");
@@ -92,26 +224,63 @@ const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscov
             className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-4 focus:ring-indigo-500/10 outline-none font-bold text-slate-700 transition-all pr-40"
           />
           <button
-            onClick={() => processInput()}
-            disabled={isProcessing || isSearching}
+            onClick={() => isProcessing ? scanRef.current?.abort() : processInput()}
+            disabled={isSearching}
             className="absolute right-2 top-2 bottom-2 bg-slate-900 hover:bg-black text-white px-6 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 transition-all"
           >
-            {isProcessing ? 'Thinking...' : 'Neural Search'}
+            {isProcessing ? 'Cancel' : 'Neural Search'}
           </button>
         </div>
+        {scanError && (
+          <div className="p-3 rounded-xl bg-red-50 border border-red-100 flex items-start justify-between gap-2">
+            <p className="text-[10px] font-bold text-red-600">{scanError}</p>
+            <button onClick={() => setScanError(null)} className="text-[9px] font-black text-red-400 uppercase tracking-widest hover:underline">Dismiss</button>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         {/* Results Sidebar */}
         <div className="lg:col-span-4 space-y-3">
-          {discoveredJobs?.map((job, i) => (
+          {rankedJobs.length > 0 && (
+            <div className="flex justify-between items-center px-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                {hiddenCount > 0 && !showAllJobs ? `${hiddenCount} below ${threshold}% hidden` : `${rankedJobs.length} leads`}
+              </span>
+              {hiddenCount > 0 && (
+                <button onClick={() => setShowAllJobs(!showAllJobs)} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">
+                  {showAllJobs ? 'Hide Low Matches' : 'Show All'}
+                </button>
+              )}
+            </div>
+          )}
+          {visibleJobs.map((job, i) => (
             <div 
-              key={i} 
-              className={`bg-white border p-5 rounded-2xl cursor-pointer hover:border-indigo-400 transition-all shadow-sm ${jobInput === job.url ? 'ring-2 ring-indigo-500' : 'border-slate-100'}`}
+              key={job.fingerprint || i} 
+              className={`bg-white border p-5 rounded-2xl cursor-pointer hover:border-indigo-400 transition-all shadow-sm ${jobInput === job.url ? 'ring-2 ring-indigo-500' : 'border-slate-100'} ${isBelowThreshold(job, threshold) ? 'opacity-50 grayscale' : ''}`}
               onClick={() => { setJobInput(job.url); processInput(job.url); }}
             >
-              <h4 className="font-bold text-slate-800 text-xs truncate">{job.title}</h4>
+              <div className="flex justify-between items-start gap-2">
+                <h4 className="font-bold text-slate-800 text-xs truncate">{job.title}</h4>
+                {typeof job.matchScore === 'number' ? (
+                  <span className={`text-[10px] font-black ${isBelowThreshold(job, threshold) ? 'text-slate-400' : 'text-indigo-600'}`}>{job.matchScore}%</span>
+                ) : isSearching && (
+                  <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-500 rounded-full animate-spin shrink-0"></div>
+                )}
+              </div>
               <p className="text-[10px] text-slate-500 font-bold">{job.company} • {job.location}</p>
+              {(job.alreadyApplied || (job.sources?.length || 0) > 1) && (
+                <div className="flex gap-1.5 mt-2">
+                  {job.alreadyApplied && (
+                    <span className="text-[8px] font-black bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded border border-emerald-100 uppercase tracking-widest">Applied</span>
+                  )}
+                  {(job.sources?.length || 0) > 1 && (
+                    <span className="text-[8px] font-black bg-slate-50 text-slate-500 px-2 py-0.5 rounded border border-slate-100 uppercase tracking-widest" title={job.sources!.map(s => s.source).join(', ')}>
+                      {job.sources!.length} Sources
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -123,15 +292,47 @@ const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscov
               <div className="flex justify-between items-start">
                 <div>
                   <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Active Target Analysis</span>
+                  {cachedSince && (
+                    <span className="ml-3 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                      Cached {formatAge(cachedSince)} ·{' '}
+                      <button
+                        onClick={() => processInput(scanTarget, true)}
+                        disabled={isProcessing}
+                        className="text-indigo-600 hover:underline disabled:opacity-50"
+                      >
+                        Refresh
+                      </button>
+                    </span>
+                  )}
                   <h3 className="text-2xl font-black text-slate-900 mt-1">{currentJob.title}</h3>
                   <p className="text-slate-500 font-bold">{currentJob.company}</p>
+                  {fieldsBySource.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-3">
+                      {fieldsBySource.map(([source, fields]) => (
+                        <span
+                          key={source}
+                          className={`text-[8px] font-bold px-2 py-1 rounded border uppercase ${source === 'llm' ? 'bg-amber-50 text-amber-600 border-amber-100' : 'bg-slate-50 text-slate-500 border-slate-100'}`}
+                        >
+                          {FIELD_SOURCE_LABELS[source]}: {fields.join(', ')}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-6">
+                  {localCoverage && (
+                    <div className="text-right">
+                      <div className="text-4xl font-black text-indigo-600">{localCoverage.score}%</div>
+                      <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Local ATS Coverage</div>
+                    </div>
+                  )}
+                  {match && (
+                    <div className="text-right">
+                      <div className="text-4xl font-black text-slate-900">{match.score}%</div>
+                      <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Neural Match Score</div>
+                    </div>
+                  )}
                 </div>
-                {match && (
-                  <div className="text-right">
-                    <div className="text-4xl font-black text-slate-900">{match.score}%</div>
-                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Neural Match Score</div>
-                  </div>
-                )}
               </div>
 
               {/* Match Details & Missing Skills */}
@@ -139,10 +340,32 @@ const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscov
                 <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100">
                   <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Gap Analysis</h4>
                   <p className="text-[11px] text-slate-600 leading-relaxed font-medium italic mb-4">"{match?.reasoning || 'Calculating match factors...'}"</p>
+                  {match?.breakdown && (
+                    <div className="space-y-2 mb-4">
+                      {match.trackName && (
+                        <p className="text-[9px] font-black text-indigo-600 uppercase tracking-widest">Best Track: {match.trackName}</p>
+                      )}
+                      {match.breakdown.map(f => (
+                        <div key={f.key} className={f.known ? '' : 'opacity-40'} title={f.detail}>
+                          <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-slate-400">
+                            <span>{f.key === 'llm' ? 'Neural Judgement' : f.key}</span>
+                            <span>{f.known ? `${f.score}%` : 'n/a'}</span>
+                          </div>
+                          <div className="h-1 bg-slate-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500" style={{ width: `${f.known ? f.score : 0}%` }}></div>
+                          </div>
+                          <p className="text-[9px] text-slate-400 truncate">{f.detail}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex flex-wrap gap-1.5">
-                    {match?.missingSkills?.map((s: string, i: number) => (
+                    {match?.missingSkills?.map((s, i) => (
                       <span key={i} className="text-[8px] font-bold bg-red-50 text-red-600 px-2 py-1 rounded border border-red-100 uppercase">{s}</span>
                     ))}
+                    {localCoverage?.missing.filter(k => !match?.missingSkills?.some(s => s.toLowerCase() === k.toLowerCase())).map((k, i) => (
+                      <span key={`ats${i}`} className="text-[8px] font-bold bg-amber-50 text-amber-600 px-2 py-1 rounded border border-amber-100 uppercase" title="Missing keyword (local ATS scan)">{k}</span>
+                    ))}
                   </div>
                 </div>
 
@@ -150,15 +373,37 @@ const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscov
                 <div className="bg-indigo-50 p-6 rounded-2xl border border-indigo-100">
                   <h4 className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-3">Neural Outreach (Hiring Mgr)</h4>
                   <div className="space-y-3">
-                    {outreach.map((o, i) => (
+                    {outreach.map(currentDraft).map((o, i) => {
+                      const artifact = outreachArtifact(o);
+                      return (
                       <div key={i} className="bg-white p-3 rounded-xl border border-indigo-100 shadow-sm space-y-2">
                         <div className="flex justify-between items-center">
-                          <span className="text-[9px] font-black text-indigo-400 uppercase">{o.platform} Draft</span>
-                          <button onClick={() => copyToClipboard(o.message)} className="text-[9px] font-black text-indigo-600 hover:underline">Copy</button>
+                          <span className="text-[9px] font-black text-indigo-400 uppercase">{o.platform} Draft{artifact ? ` • v${artifact.currentVersion}` : ''}</span>
+                          <div className="flex gap-2">
+                            {artifact && (
+                              <button onClick={() => setHistoryIndex(historyIndex === i ? null : i)} className="text-[9px] font-black text-slate-400 hover:underline">History</button>
+                            )}
+                            <button onClick={() => copyToClipboard(o.message)} className="text-[9px] font-black text-indigo-600 hover:underline">Copy</button>
+                          </div>
                         </div>
                         <p className="text-[10px] text-slate-600 line-clamp-2 italic leading-tight">"{o.message}"</p>
+                        {attachedTo[i] ? (
+                          <p className="text-[9px] font-black text-emerald-600 uppercase tracking-widest">Attached to {attachedTo[i]}</p>
+                        ) : (
+                          <select
+                            value=""
+                            onChange={(e) => handleAttach(i, o, e.target.value)}
+                            className="w-full bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-[9px] font-black text-slate-500 uppercase tracking-widest outline-none"
+                          >
+                            <option value="">Attach to contact...</option>
+                            {contactOptions.map(c => <option key={c.id} value={c.id}>{c.name} • {c.company}</option>)}
+                            <option value="new">+ New contact</option>
+                          </select>
+                        )}
+                        {artifact && historyIndex === i && <ArtifactHistory artifact={artifact} onChange={onArtifactChange} />}
                       </div>
-                    ))}
+                      );
+                    })}
                     {outreach.length === 0 && !isProcessing && (
                       <p className="text-[9px] text-slate-400 text-center py-4">Awaiting outreach synthesis...</p>
                     )}
@@ -166,11 +411,66 @@ const JobHunter: React.FC<JobHunterProps> = ({ profile, discoveredJobs, onDiscov
                 </div>
               </div>
 
+              {activeRun?.pipeline && (
+                <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Dispatch Pipeline</h4>
+                    <span className={`text-[9px] font-black uppercase tracking-widest ${activeRun.status === ApplicationStatus.COMPLETED ? 'text-emerald-600' : activeRun.status === ApplicationStatus.FAILED || activeRun.status === ApplicationStatus.RISK_HALT ? 'text-red-600' : 'text-indigo-600 animate-pulse'}`}>
+                      {activeRun.status}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-6 gap-1.5">
+                    {PIPELINE_STAGES.map(stage => {
+                      const lastDone = activeRun.pipeline!.lastCompletedStage;
+                      const isDone = activeRun.status === ApplicationStatus.COMPLETED || (!!lastDone && PIPELINE_STAGES.indexOf(stage) <= PIPELINE_STAGES.indexOf(lastDone));
+                      const isActive = activeRun.status === stage;
+                      return (
+                        <div key={stage} className="space-y-1">
+                          <div className={`h-1 rounded-full ${isDone ? 'bg-emerald-500' : isActive ? 'bg-indigo-500 animate-pulse' : 'bg-slate-200'}`}></div>
+                          <p className="text-[8px] font-black text-slate-400 uppercase tracking-tight truncate">{STAGE_LABELS[stage]}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {activeRun.pipeline.error && (
+                    <p className="text-[10px] font-bold text-red-600">{activeRun.pipeline.error}</p>
+                  )}
+                  <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+                    {activeRun.pipeline.events.slice().reverse().map((event, i) => (
+                      <li key={i} className="text-[9px] font-mono text-slate-500 truncate">{event}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {dispatchError && (
+                <div className="p-3 rounded-xl bg-red-50 border border-red-100 flex items-start justify-between gap-2">
+                  <p className="text-[10px] font-bold text-red-600">{dispatchError}</p>
+                  <button onClick={() => setDispatchError(null)} className="text-[9px] font-black text-red-400 uppercase tracking-widest hover:underline">Dismiss</button>
+                </div>
+              )}
+
               <div className="flex gap-4">
+                <select
+                  value={dispatchTrackId}
+                  onChange={(e) => setDispatchTrackId(e.target.value)}
+                  className="px-4 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-600 uppercase tracking-widest outline-none"
+                >
+                  {profile.resumeTracks?.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <select
+                  value={dispatchStyle}
+                  onChange={(e) => setDispatchStyle(e.target.value as CoverLetterStyle)}
+                  className="px-4 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-600 uppercase tracking-widest outline-none"
+                >
+                  {Object.values(CoverLetterStyle).map(style => <option key={style} value={style}>{style}</option>)}
+                </select>
                 <button 
-                  className="flex-1 bg-slate-900 text-white p-4 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-black shadow-lg transition-all"
+                  onClick={handleDispatch}
+                  disabled={isDispatching || !dispatchTrackId}
+                  className="flex-1 bg-slate-900 text-white p-4 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-black shadow-lg transition-all disabled:opacity-50"
                 >
-                  Synthesize Dispatch Artifacts
+                  {isDispatching ? 'Dispatch Pipeline Running...' : 'Synthesize Dispatch Artifacts'}
                 </button>
                 <button 
                   onClick={() => onTabSwitch?.('interview')}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { SavedSearch, DiscoveredJob } from '../types.ts';
+import { DEFAULT_SEARCH_INTERVAL_MINUTES } from '../services/savedSearches.ts';
+import { Icons } from '../constants.tsx';
+
+interface JobInboxProps {
+  savedSearches: SavedSearch[];
+  onAdd: (query: string, intervalMinutes: number) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (search: SavedSearch) => void;
+  onOpenJobs: (jobs: DiscoveredJob[]) => void;
+}
+
+const INTERVAL_OPTIONS = [
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 180, label: 'Every 3h' },
+  { minutes: 720, label: 'Twice Daily' },
+  { minutes: 1440, label: 'Daily' }
+];
+
+const JobInbox: React.FC<JobInboxProps> = ({ savedSearches, onAdd, onRemove, onUpdate, onOpenJobs }) => {
+  const [query, setQuery] = useState('');
+  const [intervalMinutes, setIntervalMinutes] = useState(DEFAULT_SEARCH_INTERVAL_MINUTES);
+
+  const totalNew = savedSearches.reduce((sum, s) => sum + s.newJobs.length, 0);
+
+  const handleAdd = () => {
+    if (!query.trim()) return;
+    onAdd(query, intervalMinutes);
+    setQuery('');
+  };
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      <div className="bg-white rounded-[2rem] p-8 border border-slate-200 shadow-sm space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+            <Icons.Briefcase /> Lead Inbox
+          </h2>
+          <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{totalNew} New</span>
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Save a search, e.g. 'Staff React Engineer remote'"
+            className="flex-1 px-6 py-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-4 focus:ring-indigo-500/10 outline-none font-bold text-slate-700 transition-all"
+          />
+          <select
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+            className="px-4 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black text-slate-600 uppercase tracking-widest outline-none"
+          >
+            {INTERVAL_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!query.trim()}
+            className="bg-slate-900 hover:bg-black text-white px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 transition-all"
+          >
+            Save Search
+          </button>
+        </div>
+      </div>
+
+      {savedSearches.map(search => (
+        <div key={search.id} className="bg-white rounded-[2rem] p-6 border border-slate-200 shadow-sm space-y-4">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <h3 className="font-black text-slate-900">{search.query}</h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                {INTERVAL_OPTIONS.find(o => o.minutes === search.intervalMinutes)?.label || `Every ${search.intervalMinutes}m`}
+                {' • '}
+                {search.lastRunAt ? `Last run ${new Date(search.lastRunAt).toLocaleString()}` : 'Pending first run'}
+              </p>
+            </div>
+            <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest shrink-0">
+              {search.newJobs.length > 0 && (
+                <>
+                  <button onClick={() => onOpenJobs(search.newJobs)} className="text-indigo-600 hover:underline">Open in Discovery</button>
+                  <button onClick={() => onUpdate({ ...search, newJobs: [] })} className="text-slate-400 hover:underline">Mark Seen</button>
+                </>
+              )}
+              <button onClick={() => onRemove(search.id)} className="text-slate-300 hover:text-red-500">Delete</button>
+            </div>
+          </div>
+          {search.newJobs.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {search.newJobs.map(job => (
+                <a
+                  key={job.fingerprint || job.url}
+                  href={job.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-slate-50 border border-slate-100 p-4 rounded-xl hover:border-indigo-300 transition-all"
+                >
+                  <h4 className="font-bold text-slate-800 text-xs truncate">{job.title}</h4>
+                  <p className="text-[10px] text-slate-500 font-bold">{job.company} • {job.location}</p>
+                </a>
+              ))}
+            </div>
+          ) : (
+            <p className="text-[10px] text-slate-300 font-bold uppercase tracking-widest">No new jobs</p>
+          )}
+        </div>
+      ))}
+
+      {savedSearches.length === 0 && (
+        <div className="p-12 text-center text-slate-300 font-black uppercase tracking-widest text-[10px]">No Saved Searches</div>
+      )}
+    </div>
+  );
+};
+
+export default JobInbox;
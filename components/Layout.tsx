@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Icons } from '../constants';
+import { SyncQueueStatus, ConfigIssue, LlmUsage, TaskState } from '../types';
+import ActivityDrawer from './ActivityDrawer';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -7,9 +9,23 @@ interface LayoutProps {
   setActiveTab: (tab: string) => void;
   onLogout?: () => void;
   isProcessing?: boolean;
+  badges?: Record<string, number>;
+  syncStatus?: SyncQueueStatus | null;
+  configIssues?: ConfigIssue[];
+  usage?: LlmUsage | null;
+  tasks?: TaskState[];
+  onCancelTask?: (id: string) => void;
+  onRetryTask?: (id: string) => void;
+  onDismissTask?: (id: string) => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLogout, isProcessing }) => {
+// Whichever of the two daily limits is closer to running out
+const usageRatio = (usage: LlmUsage) =>
+  Math.max(usage.requests / (usage.requestLimit || 1), usage.tokens / (usage.tokenLimit || 1));
+
+const noop = () => {};
+
+const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLogout, isProcessing, badges = {}, syncStatus, configIssues = [], usage, tasks = [], onCancelTask = noop, onRetryTask = noop, onDismissTask = noop }) => {
   const [showSuccessGlow, setShowSuccessGlow] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
@@ -23,6 +39,9 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
 
   const tabs = [
     { id: 'discover', label: 'Discovery', icon: <Icons.Briefcase /> },
+    { id: 'inbox', label: 'Inbox', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" /></svg>
+    )},
     { id: 'resume_lab', label: 'Resume Lab', icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
     )},
@@ -32,6 +51,9 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
     { id: 'interview', label: 'Chamber', icon: (
        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
     )},
+    { id: 'network', label: 'Network', icon: (
+       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+    )},
     { id: 'history', label: 'Telemetry', icon: <Icons.History /> },
     { id: 'profile', label: 'Identity', icon: <Icons.User /> },
   ];
@@ -71,6 +93,9 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
                 {tab.icon}
               </div>
               <span className="text-sm tracking-tight">{tab.label}</span>
+              {(badges[tab.id] || 0) > 0 && (
+                <span className={`ml-auto text-[10px] font-black px-2 py-0.5 rounded-full ${activeTab === tab.id ? 'bg-white text-indigo-600' : 'bg-indigo-600 text-white'}`}>{badges[tab.id]}</span>
+              )}
             </button>
           ))}
         </div>
@@ -93,6 +118,39 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
                </div>
                <span className="text-[9px] font-mono text-slate-500">{isProcessing ? '3.5s' : '0.0s'}</span>
             </div>
+
+            {usage && (
+              <div className="mt-3 space-y-1.5" title={`${usage.tokens.toLocaleString()} of ${usage.tokenLimit.toLocaleString()} tokens today`}>
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">AI Budget</span>
+                  <span className="text-[9px] font-mono text-slate-500">
+                    {usage.requests}/{usage.requestLimit} req{usage.queued > 0 ? ` • ${usage.queued} queued` : ''}
+                  </span>
+                </div>
+                <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all duration-500 ${usageRatio(usage) >= 0.9 ? 'bg-red-500' : usageRatio(usage) >= 0.7 ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                    style={{ width: `${Math.min(100, usageRatio(usage) * 100)}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+
+            {syncStatus && (!syncStatus.online || syncStatus.pending > 0) && (
+              <p className={`mt-3 text-[9px] font-black uppercase tracking-widest ${syncStatus.online ? 'text-amber-400' : 'text-slate-400'}`} title={syncStatus.lastError}>
+                {syncStatus.online ? 'Syncing' : 'Offline'} • {syncStatus.pending} change{syncStatus.pending === 1 ? '' : 's'} queued
+              </p>
+            )}
+
+            {configIssues.length > 0 && (
+              <button
+                onClick={() => { setActiveTab('profile'); setIsSidebarOpen(false); }}
+                title={configIssues.map(issue => issue.message).join('\n')}
+                className="mt-3 block text-left text-[9px] font-black uppercase tracking-widest text-red-400 hover:underline"
+              >
+                Setup needed • {configIssues.length} setting{configIssues.length === 1 ? '' : 's'} missing
+              </button>
+            )}
           </div>
 
           {onLogout && (
@@ -115,20 +173,7 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
           {children}
         </div>
         
-        {/* Floating Agent Pulse Widget (HUD Accessory) */}
-        {isProcessing && (
-          <div className="fixed bottom-10 left-1/2 -translate-x-1/2 md:left-auto md:right-10 md:translate-x-0 z-50">
-             <div className="glass-hud px-6 py-3 rounded-full flex items-center gap-4 shadow-2xl border border-white/10 animate-in slide-in-from-bottom-10">
-                <div className="relative">
-                   <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full"></div>
-                   <div className="absolute inset-0 w-2.5 h-2.5 bg-indigo-500 rounded-full pulse-ring"></div>
-                </div>
-                <span className="text-[11px] font-black text-white uppercase tracking-widest whitespace-nowrap">Agent Synthesis in Progress</span>
-                <div className="w-8 h-px bg-white/20"></div>
-                <span className="text-[10px] font-mono text-indigo-400">Task_ID: 0xFD2</span>
-             </div>
-          </div>
-        )}
+        <ActivityDrawer tasks={tasks} onCancel={onCancelTask} onRetry={onRetryTask} onDismiss={onDismissTask} />
       </main>
     </div>
   );
@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { UserProfile, ResumeTrack, Project, Experience } from '../types';
 import { parseResume } from '../services/gemini';
 import { jsPDF } from 'jspdf';
+import SettingsPanel from './SettingsPanel';
 
 interface ProfileEditorProps {
   profile: UserProfile;
@@ -58,8 +59,8 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onLogout
           }));
           
           setSaveStatus('saved');
-        } catch (err) {
-          alert("Failed to parse resume.");
+        } catch (err: any) {
+          alert(`Failed to parse resume: ${err.message}`);
           setSaveStatus('error');
         } finally {
           setIsParsing(false);
@@ -286,6 +287,21 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onLogout
                 className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none font-medium transition-all"
               />
             </div>
+            <div className="space-y-2 md:col-span-2 lg:col-span-3">
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Job Sources</label>
+              <input
+                type="text"
+                key={(editedProfile.preferences?.preferredPlatforms || []).join(',')}
+                defaultValue={(editedProfile.preferences?.preferredPlatforms || []).join(', ')}
+                onBlur={(e) => setEditedProfile({
+                  ...editedProfile,
+                  preferences: { ...editedProfile.preferences, preferredPlatforms: e.target.value.split(',').map(p => p.trim()).filter(Boolean) }
+                })}
+                placeholder="LinkedIn, Indeed, Greenhouse:stripe, Lever:netflix, Ashby:ramp, RSS:https://..."
+                className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none font-medium transition-all"
+              />
+              <p className="text-[9px] text-slate-400 font-medium italic px-2">Aggregators route through Google Jobs. Company boards take a board token after the colon.</p>
+            </div>
           </div>
         </section>
 
@@ -367,6 +383,8 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onLogout
             )}
           </div>
         </section>
+
+        <SettingsPanel />
       </div>
     </div>
   );
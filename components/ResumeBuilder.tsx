@@ -1,7 +1,8 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { UserProfile, ResumeTrack, ResumeJson, ResumeTemplate } from '../types.ts';
-import { enhanceResumeContent, addRelevantExperienceViaAI, suggestAtsKeywords, alignResumeWithProfile } from '../services/gemini.ts';
+import { streamEnhancedResume, addRelevantExperienceViaAI, suggestAtsKeywords, alignResumeWithProfile } from '../services/gemini.ts';
+import { scoreAtsCoverage } from '../services/ats.ts';
 import { jsPDF } from 'jspdf';
 import { Icons } from '../constants.tsx';
 
@@ -18,10 +19,19 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
   const [aiPrompt, setAiPrompt] = useState('');
   const [isAiProcessing, setIsAiProcessing] = useState(false);
   const [localContent, setLocalContent] = useState<ResumeJson | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const enhanceRef = useRef<AbortController | null>(null);
   
   // ATS Keywords state
   const [atsKeywords, setAtsKeywords] = useState<string[]>([]);
   const [isAnalyzingAts, setIsAnalyzingAts] = useState(false);
+  const [targetJobText, setTargetJobText] = useState('');
+
+  // Offline keyword coverage against a pasted job description
+  const localCoverage = useMemo(
+    () => localContent && targetJobText.trim() ? scoreAtsCoverage(localContent, { skills: [], description: targetJobText }) : null,
+    [localContent, targetJobText]
+  );
 
   const selectedTrack = profile?.resumeTracks?.find(t => t.id === selectedTrackId);
 
@@ -33,16 +43,30 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
     }
   }, [selectedTrackId, profile.resumeTracks]);
 
+  useEffect(() => () => enhanceRef.current?.abort(), []);
+
+  // The preview fills in as the rewrite streams; nothing is saved unless it completes
   const handleEnhance = async () => {
     if (!localContent) return;
+    const original = localContent;
+    const controller = new AbortController();
+    enhanceRef.current = controller;
     setIsEnhancing(true);
+    setAiError(null);
     try {
-      const enhanced = await enhanceResumeContent(localContent);
+      const enhanced = await streamEnhancedResume(original, partial => {
+        setLocalContent({ ...original, ...(partial as Partial<ResumeJson>) });
+      }, { signal: controller.signal });
       setLocalContent(enhanced);
       onUpdateTrack(selectedTrackId, enhanced);
-    } catch (e) {
-      console.error(e);
+    } catch (e: any) {
+      setLocalContent(original);
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setAiError(e.message);
+      }
     } finally {
+      enhanceRef.current = null;
       setIsEnhancing(false);
     }
   };
@@ -50,12 +74,14 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
   const handleSyncProfile = async () => {
     if (!localContent || !profile) return;
     setIsSyncing(true);
+    setAiError(null);
     try {
       const aligned = await alignResumeWithProfile(localContent, profile);
       setLocalContent(aligned);
       onUpdateTrack(selectedTrackId, aligned);
-    } catch (e) {
+    } catch (e: any) {
       console.error("Sync failed:", e);
+      setAiError(e.message);
     } finally {
       setIsSyncing(false);
     }
@@ -64,11 +90,13 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
   const handleAnalyzeAts = async () => {
     if (!localContent) return;
     setIsAnalyzingAts(true);
+    setAiError(null);
     try {
       const suggestions = await suggestAtsKeywords(localContent, profile.preferences?.targetRoles || []);
       setAtsKeywords(suggestions);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      setAiError(e.message);
     } finally {
       setIsAnalyzingAts(false);
     }
@@ -91,13 +119,15 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
   const handleAiCommand = async () => {
     if (!aiPrompt.trim() || !localContent) return;
     setIsAiProcessing(true);
+    setAiError(null);
     try {
       const updated = await addRelevantExperienceViaAI(aiPrompt, localContent);
       setLocalContent(updated);
       onUpdateTrack(selectedTrackId, updated);
       setAiPrompt('');
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      setAiError(e.message);
     } finally {
       setIsAiProcessing(false);
     }
@@ -296,12 +326,11 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
                   Sync Profile Context
                 </button>
                 <button 
-                  onClick={handleEnhance}
-                  disabled={isEnhancing}
+                  onClick={() => isEnhancing ? enhanceRef.current?.abort() : handleEnhance()}
                   className="w-full bg-indigo-600 text-white p-4 rounded-2xl text-[11px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all flex items-center justify-center gap-3 shadow-xl active:scale-95 disabled:opacity-50"
                 >
                   {isEnhancing ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <Icons.Check />}
-                  Neural Content Fixer
+                  {isEnhancing ? 'Stop Rewrite' : 'Neural Content Fixer'}
                 </button>
                 <button 
                   onClick={handleAnalyzeAts}
@@ -312,6 +341,12 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
                   Analyze ATS Keywords
                 </button>
               </div>
+              {aiError && (
+                <div className="p-3 rounded-xl bg-red-50 border border-red-100 flex items-start justify-between gap-2">
+                  <p className="text-[10px] font-bold text-red-600">{aiError}</p>
+                  <button onClick={() => setAiError(null)} className="text-[9px] font-black text-red-400 uppercase tracking-widest hover:underline">Dismiss</button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -356,6 +391,29 @@ const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ profile, onUpdateTrack })
             </div>
           )}
 
+          <div className="bg-white rounded-[2.5rem] p-8 border border-slate-200 shadow-sm space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Local ATS Check</h3>
+              {localCoverage && <span className="text-xl font-black text-indigo-600">{localCoverage.score}%</span>}
+            </div>
+            <textarea
+              value={targetJobText}
+              onChange={(e) => setTargetJobText(e.target.value)}
+              placeholder="Paste a job description to score keyword coverage offline..."
+              className="w-full bg-slate-50 text-slate-700 p-4 rounded-2xl text-xs border border-slate-200 outline-none focus:ring-2 focus:ring-indigo-500 h-28 resize-none transition-all"
+            />
+            {localCoverage && (
+              <div className="flex flex-wrap gap-1.5">
+                {localCoverage.matched.map((k, i) => (
+                  <span key={`m${i}`} className="text-[9px] font-bold bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded border border-emerald-100">{k}</span>
+                ))}
+                {localCoverage.missing.map((k, i) => (
+                  <button key={`x${i}`} onClick={() => injectAtsKeyword(k)} className="text-[9px] font-bold bg-red-50 text-red-600 px-2 py-0.5 rounded border border-red-100 hover:bg-red-100">+ {k}</button>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="bg-slate-900 rounded-[2.5rem] p-8 shadow-2xl space-y-6 border border-slate-800">
             <h3 className="text-white font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2">
               <span className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse"></span>
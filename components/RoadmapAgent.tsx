@@ -1,17 +1,21 @@
 
 import React from 'react';
-import { UserProfile, CareerRoadmap, TaskState } from '../types';
+import { UserProfile, CareerRoadmap, TaskState, DeepPartial } from '../types';
 
 interface RoadmapAgentProps {
   profile: UserProfile;
   roadmap: CareerRoadmap | null;
+  // The roadmap as it streams in, while a generation is running
+  draft?: DeepPartial<CareerRoadmap> | null;
   task: TaskState;
   onTrigger: () => void;
+  onCancel?: () => void;
 }
 
-const RoadmapAgent: React.FC<RoadmapAgentProps> = ({ roadmap, task, onTrigger }) => {
+const RoadmapAgent: React.FC<RoadmapAgentProps> = ({ roadmap: saved, draft, task, onTrigger, onCancel }) => {
   const isRunning = task.status === 'running';
   const isCompleted = task.status === 'completed';
+  const roadmap: DeepPartial<CareerRoadmap> | null = isRunning && draft ? draft : saved;
 
   return (
     <div className="space-y-6 animate-in fade-in duration-500 pb-20">
@@ -41,14 +45,14 @@ const RoadmapAgent: React.FC<RoadmapAgentProps> = ({ roadmap, task, onTrigger })
             <p className="text-slate-400 text-xs font-medium">Market-driven evolution trajectory based on current benchmarks.</p>
           </div>
           <button 
-            onClick={onTrigger}
-            disabled={isRunning}
+            onClick={isRunning ? onCancel : onTrigger}
+            disabled={isRunning && !onCancel}
             className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg transition-all active:scale-95 disabled:opacity-50 flex items-center gap-2 ${isRunning ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-900 text-white hover:bg-black'}`}
           >
             {isRunning ? (
               <>
                 <div className="w-3 h-3 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                Agent Working...
+                {onCancel ? 'Stop Agent' : 'Agent Working...'}
               </>
             ) : isCompleted ? 'Regenerate Strategy' : 'Generate Evolution Plan'}
           </button>
@@ -60,6 +64,13 @@ const RoadmapAgent: React.FC<RoadmapAgentProps> = ({ roadmap, task, onTrigger })
           </div>
         )}
 
+        {task.status === 'error' && (
+          <div className="bg-red-50 p-4 rounded-2xl border border-red-100 text-center space-y-1">
+            <p className="text-red-600 font-black text-[10px] uppercase tracking-widest">{task.message}</p>
+            {task.error && <p className="text-red-500 text-xs font-medium">{task.error}</p>}
+          </div>
+        )}
+
         {roadmap ? (
           <div className="space-y-6">
             {/* Top Row: Assessment Metrics */}
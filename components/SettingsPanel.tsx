@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { LlmProviderId, ModelFeature, UserSettings } from '../types';
+import {
+  DEFAULT_MODELS, MODEL_FEATURE_LABELS, LLM_PROVIDER_LABELS, FAST_MODEL, DEEP_MODEL, LIVE_MODEL,
+  loadUserSettings, saveUserSettings, getConfig, validateConfig
+} from '../services/config';
+
+const KNOWN_MODELS = [FAST_MODEL, DEEP_MODEL, LIVE_MODEL];
+
+const inputClass = "w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none font-medium transition-all";
+
+/**
+ * Device-local keys, proxy and per-feature model choices. Nothing here is
+ * synced to the cloud profile.
+ */
+const SettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<UserSettings>(loadUserSettings);
+  const [saved, setSaved] = useState(false);
+  const [issues, setIssues] = useState(() => validateConfig());
+
+  const update = (changes: Partial<UserSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const updateModel = (feature: ModelFeature, model: string) =>
+    update({ models: { ...settings.models, [feature]: model } });
+
+  const handleSave = () => {
+    saveUserSettings(settings);
+    setIssues(validateConfig());
+    setSaved(true);
+  };
+
+  const provider = settings.llmProvider || getConfig().llmProvider;
+  const defaultModel = (feature: ModelFeature) =>
+    provider === 'openai' && feature !== 'liveInterview' ? settings.openAiModel || getConfig().openAi.model : DEFAULT_MODELS[feature];
+
+  const issueFor = (key: string) => issues.find(issue => issue.key === key);
+  const renderIssue = (key: string) => {
+    const issue = issueFor(key);
+    if (!issue) return null;
+    return (
+      <p className={`text-[9px] font-bold px-2 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-500'}`}>{issue.message}</p>
+    );
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between border-b border-slate-100 pb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+          <h3 className="text-xl font-black text-slate-800 tracking-tight">Settings</h3>
+        </div>
+        <button
+          onClick={handleSave}
+          className="bg-slate-900 text-white px-5 py-2.5 rounded-xl font-bold text-sm hover:bg-slate-800 transition-all active:scale-95"
+        >
+          {saved ? 'Saved' : 'Save Settings'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Model Provider</label>
+          <select
+            value={provider}
+            onChange={(e) => update({ llmProvider: e.target.value as LlmProviderId })}
+            className={inputClass}
+          >
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+              <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+          {provider === 'fixture' && (
+            <p className="text-[9px] text-slate-400 font-medium italic px-2">Canned responses, no network. For demos and tests.</p>
+          )}
+        </div>
+        {provider === 'openai' && (
+          <>
+            <div className="space-y-2">
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Server URL</label>
+              <input
+                type="text"
+                value={settings.openAiBaseUrl || ''}
+                onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+                placeholder={getConfig().openAi.baseUrl}
+                className={inputClass}
+              />
+              {renderIssue('openAi')}
+            </div>
+            <div className="space-y-2">
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Server Model</label>
+              <input
+                type="text"
+                value={settings.openAiModel || ''}
+                onChange={(e) => update({ openAiModel: e.target.value })}
+                placeholder={getConfig().openAi.model}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Server API Key</label>
+              <input
+                type="password"
+                value={settings.openAiApiKey || ''}
+                onChange={(e) => update({ openAiApiKey: e.target.value })}
+                placeholder="Usually not needed locally"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Gemini API Key</label>
+          <input
+            type="password"
+            value={settings.geminiApiKey || ''}
+            onChange={(e) => update({ geminiApiKey: e.target.value })}
+            placeholder="Defaults to the deployment key"
+            className={inputClass}
+          />
+          {renderIssue('geminiApiKey')}
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">SerpAPI Key</label>
+          <input
+            type="password"
+            value={settings.serpApiKey || ''}
+            onChange={(e) => update({ serpApiKey: e.target.value })}
+            placeholder="Optional"
+            className={inputClass}
+          />
+          {renderIssue('serpApiKey')}
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">CORS Proxy</label>
+          <input
+            type="text"
+            value={settings.corsProxy || ''}
+            onChange={(e) => update({ corsProxy: e.target.value })}
+            placeholder={getConfig().corsProxy}
+            className={inputClass}
+          />
+          {renderIssue('corsProxy')}
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Daily Request Budget</label>
+          <input
+            type="number"
+            min={1}
+            value={settings.dailyRequestBudget || ''}
+            onChange={(e) => update({ dailyRequestBudget: Number(e.target.value) || undefined })}
+            placeholder={String(getConfig().budget.requests)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Daily Token Budget</label>
+          <input
+            type="number"
+            min={1}
+            value={settings.dailyTokenBudget || ''}
+            onChange={(e) => update({ dailyTokenBudget: Number(e.target.value) || undefined })}
+            placeholder={String(getConfig().budget.tokens)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Response Cache</label>
+          <select
+            value={settings.shareLlmCache ? 'shared' : 'local'}
+            onChange={(e) => update({ shareLlmCache: e.target.value === 'shared' })}
+            className={inputClass}
+          >
+            <option value="local">This device only</option>
+            <option value="shared">Share job extractions & market insights</option>
+          </select>
+          <p className="text-[9px] text-slate-400 font-medium px-2">Shared answers never include your resume or match scores.</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Models per Feature</label>
+        <datalist id="known-models">
+          {KNOWN_MODELS.map(model => <option key={model} value={model} />)}
+        </datalist>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {(Object.keys(DEFAULT_MODELS) as ModelFeature[]).map(feature => (
+            <div key={feature} className="space-y-1">
+              <span className="block text-[9px] font-bold text-slate-500 uppercase tracking-wider ml-1">{MODEL_FEATURE_LABELS[feature]}</span>
+              <input
+                type="text"
+                list="known-models"
+                value={settings.models?.[feature] || ''}
+                onChange={(e) => updateModel(feature, e.target.value)}
+                placeholder={defaultModel(feature)}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-[11px] transition-all"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-[9px] text-slate-400 font-medium italic px-2">Keys and models are stored on this device only. Leave a field blank to use the default.</p>
+      </div>
+    </section>
+  );
+};
+
+export default SettingsPanel;
@@ -17,4 +17,8 @@ if (container) {
   );
 } else {
   console.error("Critical: Root container not found in index.html");
+}
+
+if ('serviceWorker' in navigator) {
+  navigator.serviceWorker.register('/service-worker.js').catch(err => console.error("Service worker registration failed:", err));
 }
\ No newline at end of file
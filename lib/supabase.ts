@@ -1,14 +1,23 @@
-
 import { createClient } from '@supabase/supabase-js';
+import { getConfig, validateConfig } from '../services/config.ts';
 
-// Accessing window.process to prevent ReferenceError in "no-build" environments
-const env = (window as any).process?.env || {};
+const { supabaseUrl, supabaseAnonKey } = getConfig();
 
-const supabaseUrl = env.SUPABASE_URL || 'https://mkwuyxigbnyrkcwvfgjq.supabase.co';
-const supabaseAnonKey = env.SUPABASE_ANON_KEY || 'sb_publishable_VDrYtNeRIrz1NMp87QAWXA_2LzlC2o-';
+const issues = validateConfig()
+  .filter(issue => issue.key === 'supabaseUrl' || issue.key === 'supabaseAnonKey');
+issues.forEach(issue => console.error(`CRITICAL: ${issue.message}`));
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error("CRITICAL: Supabase credentials missing from environment.");
-}
+// Shown on the sign-in screen, since nothing can sign in until it's fixed
+export const supabaseSetupError = issues.length ? issues.map(issue => issue.message).join(' ') : null;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// PKCE so magic links and OAuth redirects return a code the callback route exchanges itself.
+// createClient throws on a missing URL, so an unconfigured build gets a client
+// that can't reach anything rather than failing before the app can say why.
+export const supabase = createClient(supabaseSetupError ? 'http://localhost' : supabaseUrl, supabaseAnonKey || 'unconfigured', {
+  auth: {
+    flowType: 'pkce',
+    autoRefreshToken: true,
+    persistSession: true,
+    detectSessionInUrl: false
+  }
+});
@@ -0,0 +1,75 @@
+// Bump when the precached files or caching rules change; activate drops every other cache
+const CACHE_NAME = 'autojob-v2';
+const ASSETS_TO_CACHE = [
+  '/index.html',
+  '/manifest.json',
+  'https://cdn-icons-png.flaticon.com/512/2906/2906206.png'
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => {
+      return cache.addAll(ASSETS_TO_CACHE);
+    })
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((cacheNames) => {
+      return Promise.all(
+        cacheNames.filter((cacheName) => cacheName !== CACHE_NAME).map((cacheName) => {
+          return caches.delete(cacheName);
+        })
+      );
+    }).then(() => self.clients.claim())
+  );
+});
+
+// Pages go to the network first so a deploy is picked up on the next load;
+// the cached shell is only the offline fallback
+const handleNavigation = (request) =>
+  fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+      }
+      return response;
+    })
+    .catch(() => caches.match('/index.html'));
+
+// Built assets have content-hashed names, so a cached copy never goes stale
+const handleAsset = (request) =>
+  caches.match(request).then((cached) => {
+    if (cached) return cached;
+    return fetch(request).then((response) => {
+      if (response.ok && new URL(request.url).pathname.startsWith('/assets/')) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    });
+  });
+
+self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET') return;
+  event.respondWith(event.request.mode === 'navigate' ? handleNavigation(event.request) : handleAsset(event.request));
+});
+
+// Focus (or open) the app when a notification is clicked and tell it which tab to show
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const tab = event.notification.data && event.notification.data.tab;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        if (tab) client.postMessage({ type: 'open_tab', tab });
+        return client.focus();
+      }
+      return self.clients.openWindow('/');
+    })
+  );
+});
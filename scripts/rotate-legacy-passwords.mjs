@@ -0,0 +1,49 @@
+/**
+ * Replaces every account's password with a random one nobody knows.
+ *
+ * Accounts created under the old development bypass all share one published
+ * password, and Supabase keeps accepting it until it changes server-side.
+ * The app only signs in with magic links and OAuth now, so no legitimate
+ * user needs a password. Run once per project with the service role key;
+ * re-runs skip accounts already rotated.
+ *
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run rotate-legacy-passwords
+ */
+import { createClient } from '@supabase/supabase-js';
+import { randomBytes } from 'node:crypto';
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+  process.exit(1);
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const PAGE_SIZE = 200;
+let rotated = 0;
+let skipped = 0;
+
+for (let page = 1; ; page++) {
+  const { data, error } = await admin.auth.admin.listUsers({ page, perPage: PAGE_SIZE });
+  if (error) throw error;
+
+  for (const user of data.users) {
+    if (user.app_metadata?.password_rotated_at) {
+      skipped++;
+      continue;
+    }
+    const { error: updateError } = await admin.auth.admin.updateUserById(user.id, {
+      password: randomBytes(32).toString('hex'),
+      app_metadata: { ...user.app_metadata, password_rotated_at: new Date().toISOString() }
+    });
+    if (updateError) throw new Error(`Failed to rotate ${user.id}: ${updateError.message}`);
+    rotated++;
+  }
+
+  if (data.users.length < PAGE_SIZE) break;
+}
+
+console.log(`Rotated ${rotated} password(s); ${skipped} account(s) were already rotated.`);
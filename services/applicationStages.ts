@@ -0,0 +1,41 @@
+import { ApplicationLog, ApplicationStage, ApplicationStatus } from "../types.ts";
+
+export const APPLICATION_STAGES: ApplicationStage[] = [
+  ApplicationStage.SAVED,
+  ApplicationStage.APPLIED,
+  ApplicationStage.SCREENING,
+  ApplicationStage.INTERVIEWING,
+  ApplicationStage.OFFER,
+  ApplicationStage.REJECTED,
+  ApplicationStage.WITHDRAWN
+];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  [ApplicationStage.SAVED]: 'Saved',
+  [ApplicationStage.APPLIED]: 'Applied',
+  [ApplicationStage.SCREENING]: 'Screening',
+  [ApplicationStage.INTERVIEWING]: 'Interviewing',
+  [ApplicationStage.OFFER]: 'Offer',
+  [ApplicationStage.REJECTED]: 'Rejected',
+  [ApplicationStage.WITHDRAWN]: 'Withdrawn'
+};
+
+/**
+ * Stage shown for an application the user hasn't placed yet: a finished
+ * dispatch counts as Applied, anything else is still Saved.
+ */
+export const getApplicationStage = (app: ApplicationLog): ApplicationStage =>
+  app.stage || (app.status === ApplicationStatus.COMPLETED ? ApplicationStage.APPLIED : ApplicationStage.SAVED);
+
+/**
+ * When the application entered its current stage, falling back to the
+ * dispatch timestamp for applications that predate stage tracking.
+ */
+export const getStageEnteredAt = (app: ApplicationLog): string =>
+  app.stageHistory?.[getApplicationStage(app)] || app.timestamp;
+
+export const moveToStage = (app: ApplicationLog, stage: ApplicationStage, at = new Date().toISOString()): ApplicationLog => ({
+  ...app,
+  stage,
+  stageHistory: { ...app.stageHistory, [stage]: at }
+});
@@ -0,0 +1,19 @@
+import { ApplicationLog, WriteOutcome } from "../types.ts";
+import { getRepository } from "./repository/index.ts";
+
+// Last write issued per application, so a slow save can't land after a newer one
+const writes = new Map<string, Promise<WriteOutcome>>();
+
+/**
+ * Queues the application row, waiting for any earlier write of the same
+ * application to settle first. Resolves with what became of the write.
+ */
+export const saveApplicationInOrder = (userId: string, app: ApplicationLog): Promise<WriteOutcome> => {
+  const previous = writes.get(app.id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => getRepository().saveApplication(userId, app));
+  writes.set(app.id, next);
+  next.catch(() => undefined).finally(() => {
+    if (writes.get(app.id) === next) writes.delete(app.id);
+  });
+  return next;
+};
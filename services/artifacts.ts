@@ -0,0 +1,172 @@
+import { Artifact, ArtifactKind, ArtifactOrigin, ArtifactVersion, ResumeJson, ResumeDiff } from "../types.ts";
+import { supabase } from "../lib/supabase.ts";
+import { diffResume } from "./resumeMutation.ts";
+
+export const ARTIFACT_KIND_LABELS: Record<ArtifactKind, string> = {
+  cover_letter: 'Cover Letter',
+  tailored_resume: 'Tailored Resume',
+  outreach_message: 'Outreach Message'
+};
+
+const fromRow = (row: any): Artifact => ({
+  id: row.id,
+  kind: row.kind,
+  key: row.key || undefined,
+  jobId: row.job_id,
+  jobTitle: row.job_title || '',
+  company: row.company || '',
+  versions: row.versions || [],
+  currentVersion: row.current_version || 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at || row.created_at
+});
+
+const toRow = (userId: string, artifact: Artifact) => ({
+  id: artifact.id,
+  user_id: userId,
+  kind: artifact.kind,
+  key: artifact.key || null,
+  job_id: artifact.jobId,
+  job_title: artifact.jobTitle,
+  company: artifact.company,
+  versions: artifact.versions,
+  current_version: artifact.currentVersion,
+  created_at: artifact.createdAt,
+  updated_at: artifact.updatedAt
+});
+
+export const fetchArtifacts = async (userId: string): Promise<Artifact[]> => {
+  const { data, error } = await supabase.from('artifacts').select('*').eq('user_id', userId).order('updated_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const persistArtifact = async (userId: string, artifact: Artifact) => {
+  const { error } = await supabase.from('artifacts').upsert(toRow(userId, artifact));
+  if (error) throw error;
+};
+
+export const findArtifact = (artifacts: Artifact[], kind: ArtifactKind, jobId: string, key?: string) =>
+  artifacts.find(a => a.kind === kind && a.jobId === jobId && (a.key || undefined) === key);
+
+export const getVersion = (artifact: Artifact, version = artifact.currentVersion) =>
+  artifact.versions.find(v => v.version === version);
+
+export const currentContent = (artifact: Artifact) => getVersion(artifact)?.content;
+
+const sameContent = (a: ArtifactVersion['content'] | undefined, b: ArtifactVersion['content']) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const createArtifact = (
+  kind: ArtifactKind,
+  job: { id: string; title: string; company: string },
+  content: ArtifactVersion['content'],
+  inputs?: ArtifactVersion['inputs'],
+  key?: string
+): Artifact => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    key,
+    jobId: job.id,
+    jobTitle: job.title,
+    company: job.company,
+    versions: [{ version: 1, createdAt: now, origin: 'generated', content, inputs }],
+    currentVersion: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Appends a version and makes it current. Content identical to the current
+ * version is not stored twice.
+ */
+export const addVersion = (
+  artifact: Artifact,
+  content: ArtifactVersion['content'],
+  origin: ArtifactOrigin,
+  inputs?: ArtifactVersion['inputs'],
+  restoredFrom?: number
+): Artifact => {
+  if (sameContent(currentContent(artifact), content)) return artifact;
+  const now = new Date().toISOString();
+  const version = Math.max(0, ...artifact.versions.map(v => v.version)) + 1;
+  return {
+    ...artifact,
+    versions: [...artifact.versions, { version, createdAt: now, origin, content, inputs, restoredFrom }],
+    currentVersion: version,
+    updatedAt: now
+  };
+};
+
+/**
+ * Restoring never rewrites history: the old content comes back as a new version.
+ */
+export const restoreVersion = (artifact: Artifact, version: number): Artifact => {
+  const source = getVersion(artifact, version);
+  if (!source) return artifact;
+  return addVersion(artifact, source.content, 'restored', source.inputs, version);
+};
+
+/**
+ * Records `content` against the matching artifact, creating it on first use.
+ * Returns null when nothing changed.
+ */
+export const recordArtifact = (
+  artifacts: Artifact[],
+  kind: ArtifactKind,
+  job: { id: string; title: string; company: string },
+  content: ArtifactVersion['content'],
+  origin: ArtifactOrigin,
+  inputs?: ArtifactVersion['inputs'],
+  key?: string
+): Artifact | null => {
+  const existing = findArtifact(artifacts, kind, job.id, key);
+  if (!existing) return createArtifact(kind, job, content, inputs, key);
+  const updated = addVersion(existing, content, origin, inputs);
+  return updated === existing ? null : updated;
+};
+
+export type TextDiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Line-level diff via longest common subsequence.
+ */
+export const diffText = (before: string, after: string): TextDiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+  return lines;
+};
+
+export const compareVersions = (artifact: Artifact, from: number, to: number): { text?: TextDiffLine[]; resume?: ResumeDiff } => {
+  const before = getVersion(artifact, from)?.content;
+  const after = getVersion(artifact, to)?.content;
+  if (before === undefined || after === undefined) return {};
+  if (typeof before === 'string' && typeof after === 'string') return { text: diffText(before, after) };
+  if (typeof before === 'object' && typeof after === 'object') return { resume: diffResume(before as ResumeJson, after as ResumeJson) };
+  return {};
+};
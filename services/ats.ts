@@ -0,0 +1,204 @@
+import { Job, ResumeJson, AtsCoverage, AtsSection } from "../types.ts";
+
+/**
+ * Canonical skill terms and the spellings job posts and resumes use for them.
+ * Only true synonyms and spelling variants: related skills (a framework and
+ * its language, a tool and its host) stay separate so one never earns credit
+ * for the other. Keys double as the vocabulary recognised in free-text job
+ * descriptions.
+ */
+const SYNONYMS: Record<string, string[]> = {
+  'javascript': ['js', 'ecmascript'],
+  'typescript': ['ts'],
+  'node.js': ['node', 'nodejs', 'node js'],
+  'react': ['react.js', 'reactjs', 'react js'],
+  'react native': ['react-native'],
+  'next.js': ['nextjs', 'next js'],
+  'vue': ['vue.js', 'vuejs'],
+  'angular': [],
+  'svelte': [],
+  'redux': [],
+  'graphql': ['gql'],
+  'rest': ['restful', 'rest api', 'rest apis'],
+  'html': ['html5'],
+  'css': ['css3'],
+  'tailwind': ['tailwindcss', 'tailwind css'],
+  'python': ['py'],
+  'java': [],
+  'kotlin': [],
+  'swift': [],
+  'go': ['golang'],
+  'rust': [],
+  'c++': ['cpp'],
+  'c#': ['csharp', 'c sharp'],
+  'ruby': [],
+  'php': [],
+  'sql': [],
+  'postgresql': ['postgres'],
+  'mysql': [],
+  'mongodb': ['mongo'],
+  'redis': [],
+  'elasticsearch': ['elastic search'],
+  'kafka': ['apache kafka'],
+  'aws': ['amazon web services'],
+  'gcp': ['google cloud', 'google cloud platform'],
+  'azure': ['microsoft azure'],
+  'docker': [],
+  'kubernetes': ['k8s'],
+  'terraform': [],
+  'ci/cd': ['cicd', 'ci cd'],
+  'git': [],
+  'jest': [],
+  'cypress': [],
+  'playwright': [],
+  'testing': [],
+  'accessibility': ['a11y', 'wcag'],
+  'performance': [],
+  'microservices': ['micro services', 'microservice'],
+  'microfrontends': ['micro frontends', 'micro-frontends', 'microfrontend'],
+  'system design': ['systems design'],
+  'machine learning': ['ml'],
+  'artificial intelligence': ['ai'],
+  'llm': ['llms', 'large language models'],
+  'data engineering': [],
+  'agile': [],
+  'leadership': [],
+  'mentoring': ['mentorship', 'mentored'],
+  'product management': [],
+  'figma': [],
+  'ux': ['user experience', 'ux design'],
+  'ui': ['user interface', 'ui design']
+};
+
+// Spellings that are ordinary English words in prose ("the rest of", "go live");
+// they only count when the job lists them as skills
+const PROSE_AMBIGUOUS = new Set(['go', 'rest', 'swift', 'rust', 'ts', 'py', 'mentored']);
+
+// "CI-CD", "CI/CD" and "cicd" are one spelling, as are "Node.js" and "nodejs":
+// punctuation inside a token is dropped before any lookup
+const fold = (term: string) => term.split(' ').map(token => token.replace(/[-/.]/g, '')).join(' ');
+
+const ALIAS_TO_CANONICAL: Record<string, string> = Object.entries(SYNONYMS).reduce((acc, [canonical, aliases]) => {
+  acc[fold(canonical)] = canonical;
+  aliases.forEach(alias => { acc[fold(alias)] = canonical; });
+  return acc;
+}, {} as Record<string, string>);
+
+/**
+ * How strongly a hit in each resume section counts. A keyword listed under
+ * skills or backed by experience is worth more than one only in the summary.
+ */
+export const SECTION_WEIGHTS: Record<AtsSection, number> = {
+  skills: 1,
+  experience: 1,
+  projects: 0.85,
+  certifications: 0.85,
+  summary: 0.7,
+  education: 0.5
+};
+
+// Terms the job lists explicitly outweigh ones only mentioned in its prose
+const LISTED_SKILL_WEIGHT = 2;
+const DESCRIPTION_TERM_WEIGHT = 1;
+const MAX_NGRAM = 3;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string): string[] => normalize(text)
+  .replace(/[^a-z0-9+#./\s-]/g, ' ')
+  .split(/[\s,/]+/)
+  .map(t => t.replace(/^-+|[.-]+$/g, ''))
+  .filter(Boolean);
+
+/**
+ * Maps any spelling of a term to its canonical form; unknown terms pass
+ * through normalized so custom skills still match themselves.
+ */
+export const canonicalizeTerm = (term: string): string => {
+  const folded = fold(tokenize(term).join(' '));
+  return ALIAS_TO_CANONICAL[folded] || folded;
+};
+
+const ngrams = (tokens: string[]): string[] => {
+  const grams: string[] = [];
+  for (let n = 1; n <= MAX_NGRAM; n++) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      grams.push(tokens.slice(i, i + n).join(' '));
+    }
+  }
+  return grams;
+};
+
+/**
+ * Every canonical term (known or not) occurring in a block of text.
+ */
+const termsInText = (text: string): Set<string> =>
+  new Set(ngrams(tokenize(text).map(fold)).map(g => ALIAS_TO_CANONICAL[g] || g));
+
+const resumeSections = (resume: ResumeJson): Record<AtsSection, string> => ({
+  summary: resume.summary || '',
+  skills: (resume.skills || []).join(', '),
+  experience: (resume.experience || []).map(e => [e.role, ...(e.achievements || [])].join('. ')).join('. '),
+  projects: (resume.projects || []).map(p => [p.name, p.description, ...(p.technologies || [])].join(', ')).join('. '),
+  certifications: (resume.certifications || []).map(c => typeof c === 'string' ? c : `${c.name} ${c.issuer}`).join(', '),
+  education: (resume.education || []).map(e => e.degree).join(', ')
+});
+
+/**
+ * Weighted keywords an ATS is likely to screen for: everything in the job's
+ * skill list, plus known vocabulary terms mentioned in its description.
+ */
+export const extractJobKeywords = (job: Pick<Job, 'skills' | 'description'>): { term: string; label: string; weight: number }[] => {
+  const keywords = new Map<string, { term: string; label: string; weight: number }>();
+
+  (job.skills || []).forEach(skill => {
+    const term = canonicalizeTerm(skill);
+    if (term && !keywords.has(term)) keywords.set(term, { term, label: skill.trim(), weight: LISTED_SKILL_WEIGHT });
+  });
+
+  ngrams(tokenize(job.description || '').map(fold)).forEach(gram => {
+    const term = ALIAS_TO_CANONICAL[gram];
+    if (term && !PROSE_AMBIGUOUS.has(gram) && !keywords.has(term)) {
+      keywords.set(term, { term, label: term, weight: DESCRIPTION_TERM_WEIGHT });
+    }
+  });
+
+  return Array.from(keywords.values()).sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term));
+};
+
+/**
+ * Deterministic, offline keyword coverage of a resume against a job, 0-100.
+ * Each keyword earns its weight times the best section weight it appears in.
+ */
+export const scoreAtsCoverage = (resume: ResumeJson, job: Pick<Job, 'skills' | 'description'>): AtsCoverage => {
+  const keywords = extractJobKeywords(job);
+  const sectionTerms = Object.entries(resumeSections(resume)).map(
+    ([section, text]) => [section as AtsSection, termsInText(text), tokenize(text).map(fold).join(' ')] as const
+  );
+
+  const matched: string[] = [];
+  const missing: string[] = [];
+  const sectionHits: Partial<Record<AtsSection, string[]>> = {};
+  let earned = 0;
+  let possible = 0;
+
+  keywords.forEach(({ term, label, weight }) => {
+    possible += weight;
+    // Terms longer than the n-gram window fall back to a phrase search
+    const hits = sectionTerms.filter(([, terms, text]) => terms.has(term) || (term.split(' ').length > MAX_NGRAM && text.includes(term)));
+    if (hits.length === 0) {
+      missing.push(label);
+      return;
+    }
+    matched.push(label);
+    earned += weight * Math.max(...hits.map(([section]) => SECTION_WEIGHTS[section]));
+    hits.forEach(([section]) => { sectionHits[section] = [...(sectionHits[section] || []), label]; });
+  });
+
+  return {
+    score: possible ? Math.round((earned / possible) * 100) : 0,
+    matched,
+    missing,
+    sectionHits
+  };
+};
@@ -0,0 +1,59 @@
+import type { Provider } from "@supabase/supabase-js";
+import { supabase } from "../lib/supabase.ts";
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+export type OAuthOption = { id: Provider; label: string };
+
+export const OAUTH_PROVIDERS: OAuthOption[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'github', label: 'GitHub' },
+  { id: 'linkedin_oidc', label: 'LinkedIn' }
+];
+
+const callbackUrl = () => `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: callbackUrl() } });
+  if (error) throw error;
+};
+
+export const signInWithProvider = async (provider: Provider) => {
+  const { error } = await supabase.auth.signInWithOAuth({ provider, options: { redirectTo: callbackUrl() } });
+  if (error) throw error;
+};
+
+/**
+ * Finishes a magic-link or OAuth redirect: exchanges the PKCE code for a
+ * session and strips the auth parameters from the address bar. Does nothing
+ * outside the callback route.
+ */
+export const completeAuthCallback = async () => {
+  if (window.location.pathname !== AUTH_CALLBACK_PATH) return;
+  const params = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  window.history.replaceState(null, '', '/');
+
+  const failure = params.get('error_description') || hash.get('error_description');
+  if (failure) throw new Error(failure);
+
+  const code = params.get('code');
+  if (!code) throw new Error('Sign-in link is missing its verification code. Request a new one.');
+  const { error } = await supabase.auth.exchangeCodeForSession(code);
+  if (error) throw error;
+};
+
+/**
+ * Re-checks the session whenever the tab becomes visible again, since the
+ * refresh timer doesn't run while the device sleeps. getSession() refreshes
+ * an expired token itself; `onExpired` runs when that refresh fails.
+ */
+export const watchSessionRefresh = (onExpired: (message: string) => void) => {
+  const check = async () => {
+    if (document.visibilityState !== 'visible') return;
+    const { error } = await supabase.auth.getSession();
+    if (error) onExpired(error.message);
+  };
+  document.addEventListener('visibilitychange', check);
+  return () => document.removeEventListener('visibilitychange', check);
+};
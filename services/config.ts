@@ -0,0 +1,203 @@
+import { AppConfig, ConfigIssue, LlmProviderId, ModelFeature, UserSettings } from "../types.ts";
+import { APP_STORAGE_KEY } from "../constants.tsx";
+
+export const FAST_MODEL = 'gemini-3-flash-preview';
+export const DEEP_MODEL = 'gemini-3-pro-preview';
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export const DEFAULT_MODELS: Record<ModelFeature, string> = {
+  outreach: FAST_MODEL,
+  interviewEvaluation: FAST_MODEL,
+  liveInterview: LIVE_MODEL,
+  marketInsights: DEEP_MODEL,
+  careerRoadmap: DEEP_MODEL,
+  resumeAlignment: FAST_MODEL,
+  atsKeywords: FAST_MODEL,
+  resumeEnhancement: DEEP_MODEL,
+  resumeMutation: FAST_MODEL,
+  resumeExpansion: FAST_MODEL,
+  gigSearch: DEEP_MODEL,
+  commands: FAST_MODEL,
+  proposals: FAST_MODEL,
+  coverLetters: FAST_MODEL,
+  jobExtraction: DEEP_MODEL,
+  jobSearch: DEEP_MODEL,
+  matchScoring: FAST_MODEL,
+  resumeParsing: FAST_MODEL
+};
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (llama.cpp, Ollama)',
+  fixture: 'Offline Fixtures'
+};
+
+export const MODEL_FEATURE_LABELS: Record<ModelFeature, string> = {
+  outreach: 'Outreach Drafts',
+  interviewEvaluation: 'Interview Scoring',
+  liveInterview: 'Live Interview (Audio)',
+  marketInsights: 'Market Insights',
+  careerRoadmap: 'Career Roadmap',
+  resumeAlignment: 'Resume Alignment',
+  atsKeywords: 'ATS Keywords',
+  resumeEnhancement: 'Resume Enhancement',
+  resumeMutation: 'Resume Tailoring',
+  resumeExpansion: 'Add Experience',
+  gigSearch: 'Gig Search',
+  commands: 'Command Bar',
+  proposals: 'Proposals',
+  coverLetters: 'Cover Letters',
+  jobExtraction: 'Job Extraction',
+  jobSearch: 'Job Search',
+  matchScoring: 'Match Scoring',
+  resumeParsing: 'Resume Parsing'
+};
+
+const DEFAULT_CORS_PROXY = 'https://corsproxy.io/?';
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+const DEFAULT_DAILY_REQUEST_BUDGET = 500;
+const DEFAULT_DAILY_TOKEN_BUDGET = 2_000_000;
+
+const SETTINGS_STORAGE_KEY = `${APP_STORAGE_KEY}:settings`;
+
+/**
+ * Thrown when a feature needs a setting that isn't configured. `key` names
+ * the missing setting so the UI can point at the right field.
+ */
+export class ConfigError extends Error {
+  constructor(public key: keyof AppConfig, message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Vite replaces `process.env` at build time; without a build it only exists if the host page defines it
+const readEnv = (): Record<string, string | undefined> => {
+  try {
+    return process.env as Record<string, string | undefined>;
+  } catch {
+    return (window as any).process?.env || {};
+  }
+};
+
+export const loadUserSettings = (): UserSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Failed to read settings:", e);
+    return {};
+  }
+};
+
+const listeners = new Set<(config: AppConfig) => void>();
+
+export const saveUserSettings = (settings: UserSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to persist settings:", e);
+  }
+  const config = getConfig();
+  listeners.forEach(listener => listener(config));
+};
+
+export const subscribeConfig = (listener: (config: AppConfig) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const pick = (...values: (string | undefined)[]) => values.map(v => v?.trim()).find(Boolean);
+
+/**
+ * Effective configuration: the user's saved settings, then build-time
+ * environment, then the built-in defaults.
+ */
+export const getConfig = (): AppConfig => {
+  const env = readEnv();
+  const settings = loadUserSettings();
+  const requestedProvider = pick(settings.llmProvider, env.LLM_PROVIDER) as LlmProviderId | undefined;
+  const llmProvider = requestedProvider && requestedProvider in LLM_PROVIDER_LABELS ? requestedProvider : 'gemini';
+  const openAi = {
+    baseUrl: (pick(settings.openAiBaseUrl, env.OPENAI_BASE_URL) || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+    apiKey: pick(settings.openAiApiKey, env.OPENAI_API_KEY),
+    model: pick(settings.openAiModel, env.OPENAI_MODEL) || DEFAULT_OPENAI_MODEL
+  };
+
+  const models = { ...DEFAULT_MODELS };
+  (Object.keys(models) as ModelFeature[]).forEach(feature => {
+    // A local server serves one model for everything except the live audio session, which is always Gemini
+    const fallback = llmProvider === 'openai' && feature !== 'liveInterview' ? openAi.model : models[feature];
+    models[feature] = pick(settings.models?.[feature]) || fallback;
+  });
+
+  return {
+    supabaseUrl: pick(env.SUPABASE_URL) || '',
+    supabaseAnonKey: pick(env.SUPABASE_ANON_KEY) || '',
+    geminiApiKey: pick(settings.geminiApiKey, env.API_KEY),
+    serpApiKey: pick(settings.serpApiKey, env.SERP_API_KEY),
+    corsProxy: pick(settings.corsProxy) || DEFAULT_CORS_PROXY,
+    llmProvider,
+    openAi,
+    budget: {
+      requests: settings.dailyRequestBudget || DEFAULT_DAILY_REQUEST_BUDGET,
+      tokens: settings.dailyTokenBudget || DEFAULT_DAILY_TOKEN_BUDGET
+    },
+    shareLlmCache: !!settings.shareLlmCache,
+    models
+  };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const validateConfig = (config: AppConfig = getConfig()): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  if (!config.supabaseUrl) {
+    issues.push({ key: 'supabaseUrl', severity: 'error', message: 'SUPABASE_URL is not set. Add your Supabase project URL to the build environment.' });
+  } else if (!isHttpUrl(config.supabaseUrl)) {
+    issues.push({ key: 'supabaseUrl', severity: 'error', message: `SUPABASE_URL "${config.supabaseUrl}" is not a valid URL.` });
+  }
+  if (!config.supabaseAnonKey) {
+    issues.push({ key: 'supabaseAnonKey', severity: 'error', message: 'SUPABASE_ANON_KEY is not set. Add your project\'s anon key to the build environment.' });
+  }
+  if (!config.geminiApiKey) {
+    issues.push(config.llmProvider === 'gemini'
+      ? { key: 'geminiApiKey', severity: 'error', message: 'No Gemini API key. AI features are disabled until one is added here or set as API_KEY.' }
+      : { key: 'geminiApiKey', severity: 'warning', message: 'No Gemini API key. The live interview still needs one.' });
+  }
+  if (config.llmProvider === 'openai' && !isHttpUrl(config.openAi.baseUrl)) {
+    issues.push({ key: 'openAi', severity: 'error', message: `Server URL "${config.openAi.baseUrl}" is not a valid URL.` });
+  }
+  if (!config.serpApiKey) {
+    issues.push({ key: 'serpApiKey', severity: 'warning', message: 'No SerpAPI key. Google Jobs search is skipped.' });
+  }
+  if (!isHttpUrl(config.corsProxy)) {
+    issues.push({ key: 'corsProxy', severity: 'error', message: `Proxy "${config.corsProxy}" is not a valid URL.` });
+  }
+  return issues;
+};
+
+export const getModel = (feature: ModelFeature) => getConfig().models[feature];
+
+export const requireGeminiApiKey = () => {
+  const key = getConfig().geminiApiKey;
+  if (!key) {
+    throw new ConfigError('geminiApiKey', 'Gemini API key is missing. Add one under Identity → Settings or set the API_KEY environment variable.');
+  }
+  return key;
+};
+
+export const requireSerpApiKey = () => {
+  const key = getConfig().serpApiKey;
+  if (!key) {
+    throw new ConfigError('serpApiKey', 'SerpAPI key is missing. Add one under Identity → Settings or set the SERP_API_KEY environment variable.');
+  }
+  return key;
+};
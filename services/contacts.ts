@@ -0,0 +1,150 @@
+import { Contact, ContactEvent, ContactEventKind, OutreachMessage, OutreachDraft, OutreachStatus, Job } from "../types.ts";
+import { supabase } from "../lib/supabase.ts";
+
+const contactFromRow = (row: any): Contact => ({
+  id: row.id,
+  name: row.name,
+  company: row.company || '',
+  role: row.role || '',
+  channel: row.channel || 'Other',
+  handle: row.handle || undefined,
+  notes: row.notes || undefined,
+  history: row.history || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at || row.created_at
+});
+
+const contactToRow = (userId: string, contact: Contact) => ({
+  id: contact.id,
+  user_id: userId,
+  name: contact.name,
+  company: contact.company,
+  role: contact.role,
+  channel: contact.channel,
+  handle: contact.handle || null,
+  notes: contact.notes || null,
+  history: contact.history,
+  created_at: contact.createdAt,
+  updated_at: contact.updatedAt
+});
+
+const messageFromRow = (row: any): OutreachMessage => ({
+  id: row.id,
+  contactId: row.contact_id,
+  jobId: row.job_id || undefined,
+  jobTitle: row.job_title || undefined,
+  company: row.company || undefined,
+  platform: row.platform,
+  message: row.message,
+  status: row.status || 'draft',
+  createdAt: row.created_at,
+  sentAt: row.sent_at || undefined,
+  repliedAt: row.replied_at || undefined
+});
+
+const messageToRow = (userId: string, message: OutreachMessage) => ({
+  id: message.id,
+  user_id: userId,
+  contact_id: message.contactId,
+  job_id: message.jobId || null,
+  job_title: message.jobTitle || null,
+  company: message.company || null,
+  platform: message.platform,
+  message: message.message,
+  status: message.status,
+  created_at: message.createdAt,
+  sent_at: message.sentAt || null,
+  replied_at: message.repliedAt || null
+});
+
+export const fetchContacts = async (userId: string): Promise<Contact[]> => {
+  const { data, error } = await supabase.from('contacts').select('*').eq('user_id', userId).order('updated_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(contactFromRow);
+};
+
+export const persistContact = async (userId: string, contact: Contact) => {
+  const { error } = await supabase.from('contacts').upsert(contactToRow(userId, contact));
+  if (error) throw error;
+};
+
+/**
+ * Removes a contact along with every outreach message attached to it.
+ */
+export const deleteContact = async (id: string) => {
+  const { error: messagesError } = await supabase.from('outreach_messages').delete().eq('contact_id', id);
+  if (messagesError) throw messagesError;
+  const { error } = await supabase.from('contacts').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchOutreachMessages = async (userId: string): Promise<OutreachMessage[]> => {
+  const { data, error } = await supabase.from('outreach_messages').select('*').eq('user_id', userId).order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(messageFromRow);
+};
+
+export const persistOutreachMessage = async (userId: string, message: OutreachMessage) => {
+  const { error } = await supabase.from('outreach_messages').upsert(messageToRow(userId, message));
+  if (error) throw error;
+};
+
+const withEvent = (contact: Contact, kind: ContactEventKind, text: string, messageId?: string): Contact => {
+  const at = new Date().toISOString();
+  const event: ContactEvent = { at, kind, text, messageId };
+  return { ...contact, history: [...contact.history, event], updatedAt: at };
+};
+
+export const createContact = (fields: Pick<Contact, 'name' | 'company' | 'role' | 'channel'> & Partial<Pick<Contact, 'handle' | 'notes'>>): Contact => {
+  const now = new Date().toISOString();
+  return withEvent({ ...fields, id: crypto.randomUUID(), history: [], createdAt: now, updatedAt: now }, 'created', `Added ${fields.role ? `${fields.role} at ` : ''}${fields.company}`.trim());
+};
+
+export const updateContact = (contact: Contact, updates: Partial<Pick<Contact, 'name' | 'company' | 'role' | 'channel' | 'handle' | 'notes'>>): Contact =>
+  withEvent({ ...contact, ...updates }, 'updated', `Updated ${Object.keys(updates).join(', ')}`);
+
+/**
+ * Turns a generated draft into a tracked message for `contact`, recording it
+ * on the contact's history.
+ */
+export const attachOutreachDraft = (contact: Contact, draft: OutreachDraft, job?: Job) => {
+  const message: OutreachMessage = {
+    id: crypto.randomUUID(),
+    contactId: contact.id,
+    jobId: job?.id,
+    jobTitle: job?.title,
+    company: job?.company || contact.company,
+    platform: draft.platform,
+    message: draft.message,
+    status: 'draft',
+    createdAt: new Date().toISOString()
+  };
+  const label = job ? `${draft.platform} draft for ${job.title}` : `${draft.platform} draft`;
+  return { message, contact: withEvent(contact, 'drafted', label, message.id) };
+};
+
+const STATUS_TIMESTAMPS: Record<Exclude<OutreachStatus, 'draft'>, 'sentAt' | 'repliedAt'> = {
+  sent: 'sentAt',
+  replied: 'repliedAt'
+};
+
+export const setOutreachStatus = (contact: Contact, message: OutreachMessage, status: Exclude<OutreachStatus, 'draft'>) => {
+  const at = new Date().toISOString();
+  const updated: OutreachMessage = {
+    ...message,
+    status,
+    sentAt: message.sentAt || at,
+    [STATUS_TIMESTAMPS[status]]: message[STATUS_TIMESTAMPS[status]] || at
+  };
+  const text = `${status === 'sent' ? 'Sent' : 'Reply to'} ${message.platform} message${message.jobTitle ? ` about ${message.jobTitle}` : ''}`;
+  return { message: updated, contact: withEvent(contact, status, text, message.id) };
+};
+
+/**
+ * Contact history newest first.
+ */
+export const contactTimeline = (contact: Contact): ContactEvent[] =>
+  [...contact.history].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+export const contactsAtCompany = (contacts: Contact[], company: string) =>
+  contacts.filter(c => c.company.trim().toLowerCase() === company.trim().toLowerCase());
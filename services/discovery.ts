@@ -0,0 +1,76 @@
+import { Job, DiscoveredJob, UserProfile } from "../types.ts";
+import { calculateMatchScore } from "./gemini.ts";
+import { jobFingerprint } from "./jobIdentity.ts";
+
+// Parallel match-score requests per discovery batch
+export const SCORING_CONCURRENCY = 3;
+
+/**
+ * Lifts a search result into the Job shape the scoring and pipeline services use.
+ */
+export const discoveredToJob = (job: DiscoveredJob): Job => ({
+  id: job.fingerprint || jobFingerprint(job),
+  scrapedAt: new Date().toISOString(),
+  title: job.title,
+  company: job.company,
+  location: job.location,
+  skills: [],
+  description: job.description || '',
+  applyUrl: job.url,
+  platform: job.source,
+  salary: job.salary,
+  thumbnail: job.thumbnail
+});
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let cursor = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+};
+
+/**
+ * Highest score first; jobs that haven't been scored yet sink to the bottom.
+ */
+export const rankJobs = (jobs: DiscoveredJob[]): DiscoveredJob[] =>
+  [...jobs].sort((a, b) => (b.matchScore ?? -1) - (a.matchScore ?? -1));
+
+export const isBelowThreshold = (job: DiscoveredJob, threshold: number) =>
+  typeof job.matchScore === 'number' && job.matchScore < threshold;
+
+/**
+ * Fills `matchScore` on every job, reporting each result as it lands so the
+ * list can re-rank progressively. A failed score leaves that job unscored;
+ * aborting `signal` stops the batch with an AbortError.
+ */
+export const scoreDiscoveredJobs = async (
+  jobs: DiscoveredJob[],
+  profile: UserProfile,
+  onScored?: (index: number, job: DiscoveredJob, done: number) => void,
+  signal?: AbortSignal
+): Promise<DiscoveredJob[]> => {
+  let done = 0;
+  const scored = await mapWithConcurrency(jobs, SCORING_CONCURRENCY, async (job, index) => {
+    signal?.throwIfAborted();
+    let result = job;
+    try {
+      const match = await calculateMatchScore(discoveredToJob(job), profile, { signal });
+      result = { ...job, matchScore: match.score };
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`Match scoring failed for ${job.title} @ ${job.company}:`, e);
+    }
+    onScored?.(index, result, ++done);
+    return result;
+  });
+  return rankJobs(scored);
+};
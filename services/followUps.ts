@@ -0,0 +1,90 @@
+import { ApplicationLog, ApplicationStage, NextAction, NextActionKind } from "../types.ts";
+import { getApplicationStage, getStageEnteredAt } from "./applicationStages.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NEXT_ACTION_LABELS: Record<NextActionKind, string> = {
+  follow_up_email: 'Follow-up Email',
+  thank_you_note: 'Thank-you Note',
+  check_status: 'Check Status'
+};
+
+// Days after an action is added by hand before it falls due
+export const DEFAULT_ACTION_DELAY_DAYS: Record<NextActionKind, number> = {
+  follow_up_email: 7,
+  thank_you_note: 1,
+  check_status: 5
+};
+
+// What to nudge the user about once an application has sat in a stage for a while
+const STAGE_SUGGESTIONS: Partial<Record<ApplicationStage, { kind: NextActionKind; afterDays: number }>> = {
+  [ApplicationStage.APPLIED]: { kind: 'follow_up_email', afterDays: 7 },
+  [ApplicationStage.SCREENING]: { kind: 'check_status', afterDays: 5 },
+  [ApplicationStage.INTERVIEWING]: { kind: 'thank_you_note', afterDays: 1 },
+  [ApplicationStage.OFFER]: { kind: 'check_status', afterDays: 3 }
+};
+
+export const createNextAction = (kind: NextActionKind, dueAt?: string, suggested = false): NextAction => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    dueAt: dueAt || new Date(now.getTime() + DEFAULT_ACTION_DELAY_DAYS[kind] * DAY_MS).toISOString(),
+    createdAt: now.toISOString(),
+    suggested
+  };
+};
+
+export const isOpen = (action: NextAction) => !action.completedAt;
+
+/**
+ * Drops open suggestions that no longer fit the application's stage and, when
+ * nothing is left open, proposes the stage default timed from when the
+ * application entered that stage.
+ */
+export const refreshSuggestedActions = (app: ApplicationLog): ApplicationLog => {
+  const suggestion = STAGE_SUGGESTIONS[getApplicationStage(app)];
+  const actions = (app.nextActions || []).filter(a => !(a.suggested && isOpen(a) && a.kind !== suggestion?.kind));
+  const stageEnteredAt = new Date(getStageEnteredAt(app)).getTime();
+  const alreadySuggested = actions.some(a => a.suggested && a.kind === suggestion?.kind && new Date(a.createdAt).getTime() >= stageEnteredAt);
+
+  if (suggestion && !alreadySuggested && !actions.some(isOpen)) {
+    actions.push(createNextAction(suggestion.kind, new Date(stageEnteredAt + suggestion.afterDays * DAY_MS).toISOString(), true));
+  }
+  const unchanged = actions.length === (app.nextActions || []).length && actions.every((a, i) => a === app.nextActions?.[i]);
+  return unchanged ? app : { ...app, nextActions: actions };
+};
+
+const endOfDay = (now: Date) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+export const isDueBy = (action: NextAction, now = new Date()) =>
+  isOpen(action) && new Date(action.dueAt).getTime() <= endOfDay(now);
+
+export const isOverdue = (action: NextAction, now = new Date()) => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return isOpen(action) && new Date(action.dueAt).getTime() < start.getTime();
+};
+
+/**
+ * Every open action due today or earlier, oldest first.
+ */
+export const getDueActions = (applications: ApplicationLog[], now = new Date()) =>
+  applications
+    .flatMap(app => (app.nextActions || []).filter(a => isDueBy(a, now)).map(action => ({ app, action })))
+    .sort((a, b) => new Date(a.action.dueAt).getTime() - new Date(b.action.dueAt).getTime());
+
+export const updateAction = (app: ApplicationLog, actionId: string, updates: Partial<NextAction>): ApplicationLog => ({
+  ...app,
+  nextActions: (app.nextActions || []).map(a => a.id === actionId ? { ...a, ...updates } : a)
+});
+
+export const completeAction = (app: ApplicationLog, actionId: string) =>
+  updateAction(app, actionId, { completedAt: new Date().toISOString() });
+
+export const snoozeAction = (app: ApplicationLog, actionId: string, days = 1) =>
+  updateAction(app, actionId, { dueAt: new Date(Date.now() + days * DAY_MS).toISOString(), notifiedAt: undefined });
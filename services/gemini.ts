@@ -1,165 +1,204 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Job, UserProfile, CareerRoadmap, MarketInsights, DiscoveredJob, ResumeJson, Gig, CommandResult, OutreachDraft, InterviewScorecard, TranscriptAnnotation } from "../types.ts";
+import { GoogleGenAI } from "@google/genai";
+import { Job, UserProfile, CareerRoadmap, MarketInsights, DiscoveredJob, ResumeJson, ResumeTrack, Gig, CommandResult, OutreachDraft, InterviewScorecard, TranscriptAnnotation, CoverLetterStyle, MatchResult, MatchFactor, SchemaFor, LlmCallOptions, LlmRequest, DeepPartial, ExtractedJobField, JobFieldSource } from "../types.ts";
+import { scoreLocalFactors, LLM_BLEND_WEIGHT } from "./matchScoring.ts";
+import { requireGeminiApiKey } from "./config.ts";
+import { getLlmClient, generateStructured, StructuredRequest, withCache, streamText, streamStructured } from "./llm/index.ts";
+import { fetchJobPosting, mergePostingFields, isPresent, ParsedPosting, PostingFields } from "./jobSources/posting.ts";
 
-/**
- * Utility to safely parse JSON from LLM responses, 
- * handling markdown code blocks and potential truncation.
- */
-const safeParseJson = (text: string | undefined, fallback: any = {}) => {
-  if (!text) return fallback;
-  try {
-    // Remove markdown code blocks if present
-    const cleanText = text.replace(/```json|```/g, "").trim();
-    return JSON.parse(cleanText);
-  } catch (e) {
-    console.error("JSON Parse Error. Raw Text:", text);
-    // If it's a huge string that's truncated, try to fix common truncation issues 
-    // or just return the fallback to prevent app crash.
-    return fallback;
-  }
-};
+// Only the live interview talks to Gemini directly; everything else goes through the configured LlmClient
+export const getAi = () => new GoogleGenAI({ apiKey: requireGeminiApiKey() });
 
-const getAi = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("Gemini API Key is missing. Please set the API_KEY environment variable.");
+// Validated, repaired and retried once; throws LlmResponseError rather than returning a placeholder
+const generateJson = async <T>(request: StructuredRequest<T>): Promise<T> => (await generateStructured(request)).data;
+
+const RESUME_SCHEMA: SchemaFor<ResumeJson> = {
+  type: 'object',
+  required: ['summary', 'skills', 'experience'],
+  properties: {
+    summary: { type: 'string' },
+    skills: { type: 'array', items: { type: 'string' } },
+    experience: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['company', 'role', 'achievements'],
+        properties: {
+          company: { type: 'string' },
+          role: { type: 'string' },
+          duration: { type: 'string' },
+          achievements: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    },
+    projects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          technologies: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
   }
-  return new GoogleGenAI({ apiKey });
 };
 
-export const generateOutreach = async (job: Job, profile: UserProfile): Promise<OutreachDraft[]> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Generate two ultra-short, personalized outreach messages for this job: ${job.title} at ${job.company}.
+export const generateOutreach = async (job: Job, profile: UserProfile, { signal }: LlmCallOptions = {}): Promise<OutreachDraft[]> => {
+  return generateJson<OutreachDraft[]>({
+    feature: 'outreach',
+    signal,
+    prompt: `Generate two ultra-short, personalized outreach messages for this job: ${job.title} at ${job.company}.
     Target: 1 LinkedIn message (max 250 chars) and 1 Email. 
     Use user context: ${profile.resumeTracks[0]?.content.summary}.
     Highlight a shared skill or value based on the job desc: ${job.description}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            platform: { type: Type.STRING, enum: ['LinkedIn', 'Email'] },
-            recipientRole: { type: Type.STRING },
-            message: { type: Type.STRING }
-          }
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['platform', 'message'],
+        properties: {
+          platform: { type: 'string', enum: ['LinkedIn', 'Email'] },
+          recipientRole: { type: 'string' },
+          message: { type: 'string' }
         }
       }
     }
   });
-  return safeParseJson(response.text, []);
 };
 
 export const evaluateInterview = async (transcript: TranscriptAnnotation[], profile: UserProfile): Promise<InterviewScorecard> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Evaluate this interview transcript: ${JSON.stringify(transcript)}.
+  return generateJson<InterviewScorecard>({
+    feature: 'interviewEvaluation',
+    prompt: `Evaluate this interview transcript: ${JSON.stringify(transcript)}.
     Candidate profile: ${JSON.stringify(profile.resumeTracks[0]?.content)}.
     Evaluate technical accuracy, communication tone, and keywords.
     For each user turn in the transcript, provide "feedback" (max 15 words) and a "sentiment".`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          overallScore: { type: Type.NUMBER },
-          technicalAccuracy: { type: Type.NUMBER },
-          communicationTone: { type: Type.STRING },
-          keyStrengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-          improvementAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
-          annotations: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                text: { type: Type.STRING },
-                speaker: { type: Type.STRING },
-                feedback: { type: Type.STRING },
-                sentiment: { type: Type.STRING, enum: ['positive', 'neutral', 'negative'] }
-              }
+    schema: {
+      type: 'object',
+      required: ['overallScore', 'technicalAccuracy', 'communicationTone', 'keyStrengths', 'improvementAreas', 'annotations'],
+      properties: {
+        overallScore: { type: 'number' },
+        technicalAccuracy: { type: 'number' },
+        communicationTone: { type: 'string' },
+        keyStrengths: { type: 'array', items: { type: 'string' } },
+        improvementAreas: { type: 'array', items: { type: 'string' } },
+        annotations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['text', 'speaker'],
+            properties: {
+              text: { type: 'string' },
+              speaker: { type: 'string' },
+              feedback: { type: 'string' },
+              sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] }
             }
           }
         }
       }
     }
   });
-  return safeParseJson(response.text, {});
 };
 
-export const getMarketInsights = async (role: string): Promise<MarketInsights> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Analyze the current job market for: "${role}". 
-    Focus on salary benchmarks, tech stack trends, and recent hiring news.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+const MARKET_INSIGHTS_SCHEMA: SchemaFor<Omit<MarketInsights, 'citations' | 'cachedAt'>> = {
+  type: 'object',
+  required: ['salaryRange', 'demandTrend', 'topSkills'],
+  properties: {
+    salaryRange: { type: 'string' },
+    demandTrend: { type: 'string', enum: ['High', 'Stable', 'Decreasing'] },
+    topSkills: { type: 'array', items: { type: 'string' } },
+    recentNews: {
+      type: 'array',
+      items: {
+        type: 'object',
         properties: {
-          salaryRange: { type: Type.STRING },
-          demandTrend: { type: Type.STRING, enum: ['High', 'Stable', 'Decreasing'] },
-          topSkills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          recentNews: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                url: { type: Type.STRING }
-              }
-            }
-          }
+          title: { type: 'string' },
+          url: { type: 'string' }
         }
       }
     }
-  });
-
-  const rawData = safeParseJson(response.text, {});
-  const citations = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  
-  return { ...rawData, citations };
+  }
 };
 
-export const generateCareerRoadmap = async (profile: UserProfile): Promise<CareerRoadmap> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Generate a 6-month career growth roadmap based on this profile: ${JSON.stringify(profile)}. 
-    Use search to find required skills for reaching their "targetRoles" in the current market.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+// What the cache holds, citations included; shared entries are checked against it
+const CACHED_INSIGHTS_SCHEMA: SchemaFor<Omit<MarketInsights, 'cachedAt'>> = {
+  ...MARKET_INSIGHTS_SCHEMA,
+  required: ['salaryRange', 'demandTrend', 'topSkills', 'recentNews', 'citations'],
+  properties: {
+    ...MARKET_INSIGHTS_SCHEMA.properties,
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['web'],
         properties: {
-          currentMarketValue: { type: Type.STRING },
-          targetMarketValue: { type: Type.STRING },
-          gapAnalysis: { type: Type.STRING },
-          steps: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                period: { type: Type.STRING },
-                goal: { type: Type.STRING },
-                actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
-                skillGain: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          }
+          web: { type: 'object', required: ['uri', 'title'], properties: { uri: { type: 'string' }, title: { type: 'string' } } }
         }
       }
     }
-  });
-  return safeParseJson(response.text, {});
+  }
 };
 
+export const getMarketInsights = async (role: string, { signal, refresh }: LlmCallOptions = {}): Promise<MarketInsights> => {
+  const { value, cachedAt } = await withCache('marketInsights', { role }, async (signal): Promise<MarketInsights> => {
+    const response = await generateStructured<Omit<MarketInsights, 'citations' | 'cachedAt'>>({
+      feature: 'marketInsights',
+      signal,
+      prompt: `Analyze the current job market for: "${role}". 
+      Focus on salary benchmarks, tech stack trends, and recent hiring news.`,
+      grounded: true,
+      schema: MARKET_INSIGHTS_SCHEMA
+    });
+
+    return { ...response.data, recentNews: response.data.recentNews || [], citations: response.citations };
+  }, { refresh, schema: CACHED_INSIGHTS_SCHEMA, signal });
+  return { ...value, cachedAt };
+};
+
+const roadmapRequest = (profile: UserProfile): StructuredRequest<CareerRoadmap> => ({
+  feature: 'careerRoadmap',
+  prompt: `Generate a 6-month career growth roadmap based on this profile: ${JSON.stringify(profile)}. 
+  Use search to find required skills for reaching their "targetRoles" in the current market.`,
+  grounded: true,
+  schema: {
+    type: 'object',
+    required: ['currentMarketValue', 'targetMarketValue', 'gapAnalysis', 'steps'],
+    properties: {
+      currentMarketValue: { type: 'string' },
+      targetMarketValue: { type: 'string' },
+      gapAnalysis: { type: 'string' },
+      steps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['period', 'goal', 'actionItems', 'skillGain'],
+          properties: {
+            period: { type: 'string' },
+            goal: { type: 'string' },
+            actionItems: { type: 'array', items: { type: 'string' } },
+            skillGain: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    }
+  }
+});
+
+export const generateCareerRoadmap = async (profile: UserProfile): Promise<CareerRoadmap> =>
+  generateJson(roadmapRequest(profile));
+
+/**
+ * Streaming generateCareerRoadmap: `onPartial` receives the roadmap as it
+ * fills in, step by step.
+ */
+export const streamCareerRoadmap = async (
+  profile: UserProfile,
+  onPartial: (partial: DeepPartial<CareerRoadmap>) => void,
+  { signal }: LlmCallOptions = {}
+): Promise<CareerRoadmap> => (await streamStructured({ ...roadmapRequest(profile), signal }, onPartial)).data;
+
 export const encodeAudio = (bytes: Uint8Array) => {
   let binary = '';
   const len = bytes.byteLength;
@@ -199,10 +238,9 @@ export async function decodeAudioData(
 }
 
 export const alignResumeWithProfile = async (track: ResumeJson, profile: UserProfile): Promise<ResumeJson> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Synchronize this resume track with the user's global profile goals.
+  return generateJson<ResumeJson>({
+    feature: 'resumeAlignment',
+    prompt: `Synchronize this resume track with the user's global profile goals.
     
     User Identity: ${profile.fullName}
     Target Roles: ${profile.preferences?.targetRoles?.join(', ')}
@@ -216,343 +254,428 @@ export const alignResumeWithProfile = async (track: ResumeJson, profile: UserPro
     3. Maintain the integrity of existing experience and projects.
     
     Output ONLY valid JSON.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          experience: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                company: { type: Type.STRING },
-                role: { type: Type.STRING },
-                duration: { type: Type.STRING },
-                achievements: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          },
-          projects: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                technologies: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          }
-        }
-      }
-    }
+    schema: RESUME_SCHEMA
   });
-  return safeParseJson(response.text, track);
 };
 
 export const suggestAtsKeywords = async (track: ResumeJson, targetRoles: string[]): Promise<string[]> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Analyze this resume track and these target roles: ${targetRoles.join(', ')}. 
+  return generateJson<string[]>({
+    feature: 'atsKeywords',
+    prompt: `Analyze this resume track and these target roles: ${targetRoles.join(', ')}. 
     Suggest 8-10 high-impact technical keywords or skills that are currently missing but are crucial for passing ATS for these roles.
     Output only the list of skills as a JSON array of strings.
     
     Current Resume Track: ${JSON.stringify(track)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
+    schema: { type: 'array', items: { type: 'string' } }
   });
-  return safeParseJson(response.text, []);
 };
 
-export const enhanceResumeContent = async (content: ResumeJson): Promise<ResumeJson> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Rewrite and enhance this resume for maximum impact. 
+const enhancementRequest = (content: ResumeJson): StructuredRequest<ResumeJson> => ({
+  feature: 'resumeEnhancement',
+  prompt: `Rewrite and enhance this resume for maximum impact. 
+  STRICT RULES:
+  1. Output ONLY valid JSON matching the schema.
+  2. Professional Title & Company names must be clean.
+  3. Achievements must be concise, data-driven bullet points (STAR method).
+  
+  Current Content: ${JSON.stringify(content)}`,
+  schema: RESUME_SCHEMA
+});
+
+export const enhanceResumeContent = async (content: ResumeJson): Promise<ResumeJson> =>
+  generateJson(enhancementRequest(content));
+
+export const streamEnhancedResume = async (
+  content: ResumeJson,
+  onPartial: (partial: DeepPartial<ResumeJson>) => void,
+  { signal }: LlmCallOptions = {}
+): Promise<ResumeJson> => (await streamStructured({ ...enhancementRequest(content), signal }, onPartial)).data;
+
+export const mutateResume = async (content: ResumeJson, job: Job, { signal }: LlmCallOptions = {}): Promise<ResumeJson> => {
+  const tailored = await generateJson<ResumeJson>({
+    feature: 'resumeMutation',
+    prompt: `Tailor this resume for: ${job.title} at ${job.company}.
+    Job Description: ${job.description}
+    Required Skills: ${job.skills?.join(', ')}
+    
     STRICT RULES:
     1. Output ONLY valid JSON matching the schema.
-    2. Professional Title & Company names must be clean.
-    3. Achievements must be concise, data-driven bullet points (STAR method).
+    2. Keep every experience entry (same company, role, duration, order). Only rewrite achievement wording.
+    3. Only add a skill if the resume already demonstrates it somewhere; never invent employers, metrics or credentials.
+    4. Mirror the job's terminology where it truthfully describes existing work.
     
     Current Content: ${JSON.stringify(content)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          experience: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                company: { type: Type.STRING },
-                role: { type: Type.STRING },
-                duration: { type: Type.STRING },
-                achievements: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          },
-          projects: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                technologies: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          }
-        }
-      }
-    }
+    schema: RESUME_SCHEMA,
+    signal
   });
-  return safeParseJson(response.text, content);
+  // Sections the schema doesn't cover are carried over from the source track
+  return { ...content, ...tailored };
 };
 
 export const addRelevantExperienceViaAI = async (prompt: string, currentResume: ResumeJson): Promise<ResumeJson> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Integrate a new entry based on: "${prompt}". 
+  return generateJson<ResumeJson>({
+    feature: 'resumeExpansion',
+    prompt: `Integrate a new entry based on: "${prompt}". 
     Output ONLY valid JSON.
     
     Current Resume: ${JSON.stringify(currentResume)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          experience: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                company: { type: Type.STRING },
-                role: { type: Type.STRING },
-                duration: { type: Type.STRING },
-                achievements: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          },
-          projects: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                technologies: { type: Type.ARRAY, items: { type: Type.STRING } }
-              }
-            }
-          }
-        }
-      }
-    }
+    schema: RESUME_SCHEMA
   });
-  return safeParseJson(response.text, currentResume);
-};
-
-export const searchJobsPro = async (query: string): Promise<DiscoveredJob[]> => {
-  const SERP_API_KEY = process.env.SERP_API_KEY;
-  if (!SERP_API_KEY) {
-    return searchJobs({ targetRoles: [query] });
-  }
-
-  try {
-    const proxy = "https://corsproxy.io/?";
-    const url = `${proxy}${encodeURIComponent(`https://serpapi.com/search.json?engine=google_jobs&q=${query}&api_key=${SERP_API_KEY}`)}`;
-    
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (!data.jobs_results || data.jobs_results.length === 0) {
-      return searchJobs({ targetRoles: [query] });
-    }
-
-    return data.jobs_results.map((job: any) => ({
-      title: job.title,
-      company: job.company_name,
-      location: job.location,
-      url: job.related_links?.[0]?.link || job.share_link || "#",
-      source: job.via || "Google Jobs",
-      salary: job.salary || "Not specified",
-      thumbnail: job.thumbnail,
-      description: job.description,
-      postedAt: job.detected_extensions?.posted_at || job.extensions?.find((e: string) => e.includes('ago')) || "Recent"
-    }));
-  } catch (error) {
-    console.error("SerpAPI Search failed:", error);
-    return searchJobs({ targetRoles: [query] });
-  }
 };
 
 export const searchFreelanceGigs = async (query: string): Promise<Gig[]> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Find real, active freelance projects for: "${query}"`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            platform: { type: Type.STRING },
-            budget: { type: Type.STRING },
-            description: { type: Type.STRING },
-            url: { type: Type.STRING }
-          }
+  return generateJson<Gig[]>({
+    feature: 'gigSearch',
+    prompt: `Find real, active freelance projects for: "${query}"`,
+    grounded: true,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'description', 'url'],
+        properties: {
+          title: { type: 'string' },
+          platform: { type: 'string' },
+          budget: { type: 'string' },
+          description: { type: 'string' },
+          url: { type: 'string' }
         }
       }
     }
   });
-  return safeParseJson(response.text, []);
 };
 
 export const interpretCommand = async (input: string): Promise<CommandResult> => {
   try {
-    const ai = getAi();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Interpret user intent from: "${input}"
+    return await generateJson<CommandResult>({
+      feature: 'commands',
+      prompt: `Interpret user intent from: "${input}"
       Output ONLY valid JSON matching the CommandResult interface.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            action: { type: Type.STRING, enum: ['apply', 'search_jobs', 'update_profile', 'improve_resume', 'status', 'strategy', 'find_gigs', 'blocked', 'switch_tab', 'start_interview'] },
-            goal: { type: Type.STRING },
-            params: {
-              type: Type.OBJECT,
-              properties: {
-                profile_updates: { type: Type.OBJECT },
-                preferences_updates: { type: Type.OBJECT },
-                improvement_prompt: { type: Type.STRING },
-                target_tab: { type: Type.STRING },
-                query: { type: Type.STRING }
-              }
+      schema: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['apply', 'search_jobs', 'update_profile', 'improve_resume', 'status', 'strategy', 'find_gigs', 'blocked', 'switch_tab', 'start_interview'] },
+          goal: { type: 'string' },
+          params: {
+            type: 'object',
+            properties: {
+              profile_updates: { type: 'object' },
+              preferences_updates: { type: 'object' },
+              improvement_prompt: { type: 'string' },
+              target_tab: { type: 'string' },
+              query: { type: 'string' }
             }
-          },
-          required: ["action"]
-        }
+          }
+        },
+        required: ["action"]
       }
     });
-    return safeParseJson(response.text, { action: 'blocked' });
   } catch (error) {
+    console.error("Command interpretation failed:", error);
     return { action: 'blocked' };
   }
 };
 
+const proposalRequest = (gig: any, profile: UserProfile): LlmRequest => ({
+  feature: 'proposals',
+  prompt: `Write proposal for: ${gig.title}. Description: ${gig.description}. My Context: ${profile.resumeTracks[0]?.content.summary}`,
+  system: "Write a short, professional freelance bid."
+});
+
 export const generateProposal = async (gig: any, profile: UserProfile): Promise<string> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Write proposal for: ${gig.title}. Description: ${gig.description}. My Context: ${profile.resumeTracks[0]?.content.summary}`,
-    config: {
-      systemInstruction: "Write a short, professional freelance bid.",
-    }
-  });
+  const response = await getLlmClient().generate(proposalRequest(gig, profile));
   return response.text || "Proposal failed.";
 };
 
-export const extractJobData = async (input: string): Promise<Job> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Extract real structured details from this live job posting: "${input}".`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+/**
+ * Streaming generateProposal: `onText` receives the draft so far.
+ */
+export const streamProposal = async (
+  gig: any,
+  profile: UserProfile,
+  onText: (text: string) => void,
+  { signal }: LlmCallOptions = {}
+): Promise<string> => (await streamText({ ...proposalRequest(gig, profile), signal }, onText)) || "Proposal failed.";
+
+const COVER_LETTER_STYLE_GUIDES: Record<CoverLetterStyle, string> = {
+  [CoverLetterStyle.MODERN]: "Confident and concise. Short paragraphs, active voice, lead with impact.",
+  [CoverLetterStyle.CLASSIC]: "Formal business letter. Traditional salutation and closing, measured tone.",
+  [CoverLetterStyle.TECH]: "Engineer-to-engineer. Concrete about stack, systems and trade-offs, no fluff.",
+  [CoverLetterStyle.EXECUTIVE]: "Strategic and outcome-focused. Emphasize leadership, scope and business results.",
+  [CoverLetterStyle.CHILL_PROFESSIONAL]: "Warm and conversational while staying professional. Plain language, no buzzwords."
+};
+
+const coverLetterRequest = (job: Job, track: ResumeTrack, style: CoverLetterStyle, candidateName?: string): LlmRequest => ({
+  feature: 'coverLetters',
+  prompt: `Write a cover letter for: ${job.title} at ${job.company} (${job.location}).
+  Job Description: ${job.description}
+  Required Skills: ${job.skills?.join(', ')}
+  
+  Candidate Name: ${candidateName || 'the candidate'}
+  Candidate Resume Track: ${JSON.stringify(track.content)}`,
+  system: `You write cover letters grounded strictly in the provided resume track.
+    STRICT RULES:
+    1. Only use employers, roles, metrics, projects, skills and education that appear in the resume track. Never invent facts.
+    2. If the job asks for something the track does not show, do not claim it; focus on adjacent, real strengths instead.
+    3. Maximum 350 words, plain text, no markdown, no placeholders like [Company].
+    Style: ${COVER_LETTER_STYLE_GUIDES[style]}`
+});
+
+const checkLetter = (text: string) => {
+  const letter = text.trim();
+  if (!letter) {
+    throw new Error("Cover letter generation returned no content.");
+  }
+  return letter;
+};
+
+export const generateCoverLetter = async (job: Job, track: ResumeTrack, style: CoverLetterStyle, candidateName?: string, { signal }: LlmCallOptions = {}): Promise<string> => {
+  const response = await getLlmClient().generate({ ...coverLetterRequest(job, track, style, candidateName), signal });
+  return checkLetter(response.text);
+};
+
+export const streamCoverLetter = async (
+  job: Job,
+  track: ResumeTrack,
+  style: CoverLetterStyle,
+  candidateName: string | undefined,
+  onText: (text: string) => void,
+  { signal }: LlmCallOptions = {}
+): Promise<string> => checkLetter(await streamText({ ...coverLetterRequest(job, track, style, candidateName), signal }, onText));
+
+// Bump whenever extraction changes what it returns, so older cached answers are never served
+const EXTRACTION_VERSION = 2;
+
+// Fields the model may fill from page text when the page itself doesn't state them
+const JOB_FIELDS_SCHEMA: SchemaFor<PostingFields> = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    company: { type: 'string' },
+    location: { type: 'string' },
+    skills: { type: 'array', items: { type: 'string' } },
+    description: { type: 'string' },
+    applyUrl: { type: 'string' },
+    platform: { type: 'string' },
+    salary: { type: 'string' }
+  }
+};
+
+const FIELD_SOURCE_SCHEMA: SchemaFor<JobFieldSource> = {
+  type: 'string',
+  enum: ['json-ld', 'greenhouse', 'lever', 'workday', 'ashby', 'url', 'llm']
+};
+
+// What the cache holds for an extraction; shared entries are checked against it
+const CACHED_EXTRACTION_SCHEMA: SchemaFor<Omit<Job, 'id' | 'scrapedAt' | 'cachedAt' | 'outreach'>> = {
+  type: 'object',
+  required: ['title', 'company', 'location', 'skills', 'description', 'applyUrl', 'platform'],
+  properties: {
+    ...JOB_FIELDS_SCHEMA.properties,
+    thumbnail: { type: 'string' },
+    fieldSources: {
+      type: 'object',
+      properties: {
+        title: FIELD_SOURCE_SCHEMA,
+        company: FIELD_SOURCE_SCHEMA,
+        location: FIELD_SOURCE_SCHEMA,
+        skills: FIELD_SOURCE_SCHEMA,
+        description: FIELD_SOURCE_SCHEMA,
+        applyUrl: FIELD_SOURCE_SCHEMA,
+        platform: FIELD_SOURCE_SCHEMA,
+        salary: FIELD_SOURCE_SCHEMA,
+        thumbnail: FIELD_SOURCE_SCHEMA
+      }
+    }
+  }
+};
+
+const loadPosting = async (url: string, signal?: AbortSignal): Promise<ParsedPosting> => {
+  try {
+    return await fetchJobPosting(url, signal);
+  } catch (e: any) {
+    if (signal?.aborted) throw e;
+    throw new Error(`Couldn't load the posting at ${url}: ${e.message}`);
+  }
+};
+
+/**
+ * Fetches the posting and reads it from JSON-LD or the ATS layout. The model
+ * only fills fields the page doesn't state, reading the page's own text, so
+ * nothing is made up from the URL alone. Pasted posting text goes straight
+ * to the model. `fieldSources` records which method produced each field.
+ * Cached for a week per normalized URL or pasted text; each call still gets
+ * its own id so repeat imports never collide.
+ */
+export const extractJobData = async (input: string, { signal, refresh }: LlmCallOptions = {}): Promise<Job> => {
+  const { value: data, cachedAt } = await withCache('jobExtraction', { input, version: EXTRACTION_VERSION }, async signal => {
+    const target = input.trim();
+    const posting: ParsedPosting = /^https?:\/\//i.test(target)
+      ? await loadPosting(target, signal)
+      : { fields: {}, sources: {}, text: target };
+
+    const missing = (Object.keys(JOB_FIELDS_SCHEMA.properties!) as ExtractedJobField[])
+      .filter(field => !isPresent(posting.fields[field]));
+    if (missing.length > 0 && posting.text) {
+      const extracted = await generateJson<PostingFields>({
+        feature: 'jobExtraction',
+        signal,
+        prompt: `Extract these fields from the job posting below: ${missing.join(', ')}.
+        Use only what the text states; leave out any field it doesn't mention.
+
+        POSTING:
+        ${posting.text}`,
+        schema: {
+          ...JOB_FIELDS_SCHEMA,
+          properties: Object.fromEntries(missing.map(field => [field, JOB_FIELDS_SCHEMA.properties![field]]))
+        }
+      });
+      mergePostingFields(posting, extracted, 'llm');
+    }
+
+    const { fields } = posting;
+    if (!fields.title || !fields.company) {
+      throw new Error(`No job posting found${fields.applyUrl ? ` at ${fields.applyUrl}` : ''}.`);
+    }
+    return {
+      ...fields,
+      title: fields.title,
+      company: fields.company,
+      location: fields.location || 'Not specified',
+      skills: fields.skills || [],
+      description: fields.description || '',
+      applyUrl: fields.applyUrl || '',
+      platform: fields.platform || 'Other',
+      fieldSources: posting.sources
+    };
+  }, { refresh, schema: CACHED_EXTRACTION_SCHEMA, signal });
+  return {
+    ...data,
+    // Rendered as a link, so anything but a web address (e.g. javascript:) is dropped
+    applyUrl: /^https?:\/\//i.test(data.applyUrl) ? data.applyUrl : '',
+    id: Math.random().toString(36).substr(2, 9),
+    scrapedAt: cachedAt || new Date().toISOString(),
+    cachedAt
+  };
+};
+
+export const searchJobs = async (preferences: any, { signal }: LlmCallOptions = {}): Promise<DiscoveredJob[]> => {
+  return generateJson<DiscoveredJob[]>({
+    feature: 'jobSearch',
+    prompt: `CRITICAL: Find and verify 5-7 active, non-expired job listings for: ${JSON.stringify(preferences.targetRoles)}.`,
+    grounded: true,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'company'],
         properties: {
-          title: { type: Type.STRING },
-          company: { type: Type.STRING },
-          location: { type: Type.STRING },
-          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          description: { type: Type.STRING },
-          applyUrl: { type: Type.STRING },
-          platform: { type: Type.STRING }
+          title: { type: 'string' },
+          company: { type: 'string' },
+          location: { type: 'string' },
+          url: { type: 'string' },
+          source: { type: 'string' },
+          description: { type: 'string' },
+          postedAt: { type: 'string' }
         }
       }
-    }
+    },
+    signal
   });
-  const data = safeParseJson(response.text, {});
-  return { ...data, id: Math.random().toString(36).substr(2, 9), scrapedAt: new Date().toISOString() };
 };
 
-export const searchJobs = async (preferences: any): Promise<DiscoveredJob[]> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `CRITICAL: Find and verify 5-7 active, non-expired job listings for: ${JSON.stringify(preferences.targetRoles)}.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
+/**
+ * Scores a job against every resume track and returns the best fit. Each
+ * track's score blends deterministic skills/location/salary/remote factors
+ * with the model's judgement; if the model call fails, local factors stand alone.
+ */
+export const calculateMatchScore = async (job: Job, profile: UserProfile, { signal, refresh }: LlmCallOptions = {}): Promise<MatchResult> => {
+  const tracks = profile.resumeTracks || [];
+  if (tracks.length === 0) {
+    return { score: 0, reasoning: "No resume tracks to compare against.", missingSkills: [] };
+  }
+
+  // Only the model's judgements are cached; local factors follow the current preferences
+  let judgements: { trackId: string; score: number; reasoning: string; missingSkills: string[] }[] = [];
+  let cachedAt: string | undefined;
+  const jobInput = { title: job.title, company: job.company, location: job.location, skills: job.skills, description: job.description };
+  const trackInput = tracks.map(t => ({ trackId: t.id, name: t.name, content: t.content }));
+  try {
+    ({ value: judgements, cachedAt } = await withCache('matchScoring', { job: jobInput, tracks: trackInput }, signal => generateJson<typeof judgements>({
+      feature: 'matchScoring',
+      signal,
+      prompt: `Compare Job: ${JSON.stringify(jobInput)}
+      against each of these resume tracks: ${JSON.stringify(trackInput)}.
+      Return one entry per trackId with a 0-100 fit score, a one-sentence reasoning and the skills the job needs that the track lacks.`,
+      schema: {
+        type: 'array',
         items: {
-          type: Type.OBJECT,
+          type: 'object',
+          required: ['trackId', 'score'],
           properties: {
-            title: { type: Type.STRING },
-            company: { type: Type.STRING },
-            location: { type: Type.STRING },
-            url: { type: Type.STRING },
-            source: { type: Type.STRING },
-            description: { type: Type.STRING },
-            postedAt: { type: Type.STRING }
+            trackId: { type: 'string' },
+            score: { type: 'number' },
+            reasoning: { type: 'string' },
+            missingSkills: { type: 'array', items: { type: 'string' } }
           }
         }
       }
-    }
+    }), { refresh, signal }));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("LLM match scoring failed, using local factors only:", error);
+  }
+  const results: MatchResult[] = tracks.map(track => {
+    const local = scoreLocalFactors(job, track, profile.preferences);
+    const judgement = judgements.find(j => j.trackId === track.id);
+    const llmFactor: MatchFactor = typeof judgement?.score === 'number'
+      ? { key: 'llm', score: Math.round(judgement.score), weight: LLM_BLEND_WEIGHT, detail: judgement.reasoning || 'Model judgement', known: true }
+      : { key: 'llm', score: 0, weight: 0, detail: 'Model judgement unavailable', known: false };
+    const score = local.score !== null && llmFactor.known
+      ? Math.round(local.score * (1 - LLM_BLEND_WEIGHT) + llmFactor.score * LLM_BLEND_WEIGHT)
+      : llmFactor.known ? llmFactor.score : local.score ?? 0;
+
+    return {
+      score,
+      reasoning: judgement?.reasoning || local.factors.filter(f => f.known).map(f => f.detail).join('. ') || 'Not enough data to explain this score.',
+      missingSkills: Array.from(new Set([...(judgement?.missingSkills || []), ...local.missingSkills])),
+      trackId: track.id,
+      trackName: track.name,
+      localScore: local.score ?? undefined,
+      llmScore: llmFactor.known ? llmFactor.score : undefined,
+      breakdown: [...local.factors, llmFactor],
+      cachedAt
+    };
   });
-  return safeParseJson(response.text, []);
+
+  return results.reduce((best, r) => r.score > best.score ? r : best, results[0]);
 };
 
-export const calculateMatchScore = async (job: any, profile: UserProfile): Promise<any> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Compare Job: ${JSON.stringify(job)} with Profile: ${JSON.stringify(profile.resumeTracks[0]?.content)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: { 
-          score: { type: Type.NUMBER }, 
-          reasoning: { type: Type.STRING }, 
-          missingSkills: { type: Type.ARRAY, items: { type: Type.STRING } } 
-        }
+export interface ParsedResume {
+  fullName: string;
+  email?: string;
+  phone?: string;
+  linkedin?: string;
+  portfolio?: string;
+  resumeJson: ResumeJson;
+}
+
+export const parseResume = async (base64: string, mimeType: string): Promise<ParsedResume> => {
+  return generateJson<ParsedResume>({
+    feature: 'resumeParsing',
+    prompt: "Extract Name, Email, Phone, LinkedIn, portfolio URL, and structured Resume JSON.",
+    attachments: [{ data: base64, mimeType }],
+    schema: {
+      type: 'object',
+      required: ['fullName', 'resumeJson'],
+      properties: {
+        fullName: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        linkedin: { type: 'string' },
+        portfolio: { type: 'string' },
+        resumeJson: RESUME_SCHEMA
       }
     }
   });
-  return safeParseJson(response.text, { score: 0 });
 };
-
-export const parseResume = async (base64: string, mimeType: string): Promise<any> => {
-  const ai = getAi();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: { parts: [{ inlineData: { data: base64, mimeType } }, { text: "Extract Name, Email, Phone, and structured Resume JSON." }] },
-    config: { responseMimeType: "application/json" }
-  });
-  return safeParseJson(response.text, {});
-};
\ No newline at end of file
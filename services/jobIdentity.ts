@@ -0,0 +1,120 @@
+import { DiscoveredJob, ApplicationLog, JobSourceLink } from "../types.ts";
+
+const COMPANY_SUFFIXES = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'gmbh', 'plc', 'sa', 'ag', 'bv', 'the']);
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior', jr: 'junior', eng: 'engineer', engr: 'engineer', dev: 'developer',
+  mgr: 'manager', swe: 'software engineer', fe: 'frontend', be: 'backend', 'front-end': 'frontend', 'back-end': 'backend'
+};
+const REMOTE_PATTERN = /\b(remote|anywhere|work from home|wfh)\b/i;
+
+// Shingle size (in words) and Jaccard overlap at which two descriptions are the same posting
+const SHINGLE_SIZE = 5;
+const MIN_SHINGLE_WORDS = 20;
+const DUPLICATE_SIMILARITY = 0.6;
+
+const words = (text: string) => text.toLowerCase().replace(/[^a-z0-9+#\s-]/g, ' ').split(/\s+/).filter(Boolean);
+
+export const normalizeCompany = (company = '') =>
+  words(company).filter(w => !COMPANY_SUFFIXES.has(w)).join(' ');
+
+export const normalizeTitle = (title = '') =>
+  words(title.replace(/\(.*?\)/g, ' ')).map(w => TITLE_ABBREVIATIONS[w] || w).join(' ');
+
+export const normalizeLocation = (location = '') => {
+  if (REMOTE_PATTERN.test(location)) return 'remote';
+  return words(location.split(/[,•|]/)[0] || '').join(' ');
+};
+
+// FNV-1a, enough to give each identity a short stable key
+const hash = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Stable identity for a posting regardless of which site it was found on.
+ */
+export const jobFingerprint = (job: { company: string; title: string; location?: string }) =>
+  hash(`${normalizeCompany(job.company)}|${normalizeTitle(job.title)}|${normalizeLocation(job.location)}`);
+
+const shingles = (text = ''): Set<string> => {
+  const tokens = words(text);
+  const set = new Set<string>();
+  if (tokens.length < MIN_SHINGLE_WORDS) return set;
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    set.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return set;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(s => { if (b.has(s)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+const isDuplicate = (a: DiscoveredJob, b: DiscoveredJob, aShingles: Set<string>, bShingles: Set<string>) => {
+  if (normalizeCompany(a.company) !== normalizeCompany(b.company)) return false;
+  const locationA = normalizeLocation(a.location);
+  const locationB = normalizeLocation(b.location);
+  const sameTitle = normalizeTitle(a.title) === normalizeTitle(b.title);
+  const compatibleLocation = locationA === locationB || !locationA || !locationB;
+  return (sameTitle && compatibleLocation) || jaccard(aShingles, bShingles) >= DUPLICATE_SIMILARITY;
+};
+
+const sourceLinks = (job: DiscoveredJob): JobSourceLink[] =>
+  job.sources?.length ? job.sources : job.url && job.url !== '#' ? [{ source: job.source, url: job.url }] : [];
+
+const mergeJobs = (primary: DiscoveredJob, other: DiscoveredJob): DiscoveredJob => {
+  const sources = [...sourceLinks(primary)];
+  sourceLinks(other).forEach(link => {
+    if (!sources.some(s => s.url === link.url)) sources.push(link);
+  });
+  return {
+    ...primary,
+    url: primary.url && primary.url !== '#' ? primary.url : other.url,
+    salary: primary.salary && primary.salary !== 'Not specified' ? primary.salary : other.salary,
+    thumbnail: primary.thumbnail || other.thumbnail,
+    description: (other.description?.length || 0) > (primary.description?.length || 0) ? other.description : primary.description,
+    postedAt: primary.postedAt || other.postedAt,
+    matchScore: primary.matchScore ?? other.matchScore,
+    sources
+  };
+};
+
+/**
+ * Collapses the same posting surfaced by several sources into one job that
+ * carries every source link, and stamps each job with its fingerprint.
+ */
+export const dedupeJobs = (jobs: DiscoveredJob[]): DiscoveredJob[] => {
+  const merged: { job: DiscoveredJob; shingles: Set<string> }[] = [];
+  jobs.forEach(job => {
+    const jobShingles = shingles(job.description);
+    const existing = merged.find(m => isDuplicate(m.job, job, m.shingles, jobShingles));
+    if (existing) {
+      existing.job = mergeJobs(existing.job, job);
+      if (existing.shingles.size === 0) existing.shingles = jobShingles;
+    } else {
+      merged.push({ job: { ...job, fingerprint: job.fingerprint || jobFingerprint(job), sources: sourceLinks(job) }, shingles: jobShingles });
+    }
+  });
+  return merged.map(m => m.job);
+};
+
+/**
+ * Flags jobs the user already has an application for, by fingerprint or by
+ * any shared source URL.
+ */
+export const markAppliedJobs = (jobs: DiscoveredJob[], applications: ApplicationLog[]): DiscoveredJob[] => {
+  const appliedFingerprints = new Set(applications.map(a => jobFingerprint({ company: a.company, title: a.jobTitle, location: a.location })));
+  const appliedUrls = new Set(applications.map(a => a.url).filter(Boolean));
+  return jobs.map(job => ({
+    ...job,
+    alreadyApplied: appliedFingerprints.has(job.fingerprint || jobFingerprint(job)) || sourceLinks(job).some(s => appliedUrls.has(s.url))
+  }));
+};
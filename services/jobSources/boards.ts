@@ -0,0 +1,73 @@
+import { JobSourceProvider, DiscoveredJob } from "../../types.ts";
+import { fetchJson, htmlToText, matchesQuery, titleCase } from "./http.ts";
+
+/**
+ * Public ATS job boards. Each is scoped to one company's board token
+ * (e.g. "Greenhouse:stripe" in preferredPlatforms) and returns its whole
+ * board, so results are filtered by the query locally.
+ */
+
+export const createGreenhouseProvider = (boardToken: string): JobSourceProvider => ({
+  id: `greenhouse:${boardToken}`,
+  label: `Greenhouse (${boardToken})`,
+  isAvailable: () => true,
+  search: async ({ query, limit, signal }) => {
+    const data = await fetchJson(`https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(boardToken)}/jobs?content=true`, false, signal);
+    return (data.jobs || [])
+      .filter((job: any) => matchesQuery(job.title || '', query))
+      .slice(0, limit)
+      .map((job: any): DiscoveredJob => ({
+        title: job.title,
+        company: job.company_name || titleCase(boardToken),
+        location: job.location?.name || 'Not specified',
+        url: job.absolute_url,
+        source: 'Greenhouse',
+        description: htmlToText(job.content),
+        postedAt: job.updated_at
+      }));
+  }
+});
+
+export const createLeverProvider = (company: string): JobSourceProvider => ({
+  id: `lever:${company}`,
+  label: `Lever (${company})`,
+  isAvailable: () => true,
+  search: async ({ query, limit, signal }) => {
+    const data = await fetchJson(`https://api.lever.co/v0/postings/${encodeURIComponent(company)}?mode=json`, false, signal);
+    return (Array.isArray(data) ? data : [])
+      .filter((job: any) => matchesQuery(job.text || '', query))
+      .slice(0, limit)
+      .map((job: any): DiscoveredJob => ({
+        title: job.text,
+        company: titleCase(company),
+        location: [job.categories?.location, job.workplaceType === 'remote' ? 'Remote' : ''].filter(Boolean).join(' • ') || 'Not specified',
+        url: job.hostedUrl,
+        source: 'Lever',
+        salary: job.salaryRange ? `${job.salaryRange.currency || ''} ${job.salaryRange.min}-${job.salaryRange.max}`.trim() : undefined,
+        description: job.descriptionPlain || htmlToText(job.description),
+        postedAt: job.createdAt ? new Date(job.createdAt).toISOString() : undefined
+      }));
+  }
+});
+
+export const createAshbyProvider = (organization: string): JobSourceProvider => ({
+  id: `ashby:${organization}`,
+  label: `Ashby (${organization})`,
+  isAvailable: () => true,
+  search: async ({ query, limit, signal }) => {
+    const data = await fetchJson(`https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(organization)}?includeCompensation=true`, true, signal);
+    return (data.jobs || [])
+      .filter((job: any) => matchesQuery(job.title || '', query))
+      .slice(0, limit)
+      .map((job: any): DiscoveredJob => ({
+        title: job.title,
+        company: titleCase(organization),
+        location: [job.location, job.isRemote ? 'Remote' : ''].filter(Boolean).join(' • ') || 'Not specified',
+        url: job.jobUrl || job.applyUrl,
+        source: 'Ashby',
+        salary: job.compensation?.compensationTierSummary,
+        description: job.descriptionPlain || htmlToText(job.descriptionHtml),
+        postedAt: job.publishedAt
+      }));
+  }
+});
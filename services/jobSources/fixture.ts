@@ -0,0 +1,45 @@
+import { JobSourceProvider, DiscoveredJob } from "../../types.ts";
+import { matchesQuery } from "./http.ts";
+
+export const FIXTURE_JOBS: DiscoveredJob[] = [
+  {
+    title: "Senior Frontend Engineer",
+    company: "Acme Analytics",
+    location: "Remote (US)",
+    url: "https://example.com/jobs/acme-senior-frontend",
+    source: "Fixture",
+    salary: "$170,000 - $195,000",
+    description: "Build our React and TypeScript dashboard. Experience with GraphQL, accessibility (WCAG) and CI/CD expected.",
+    postedAt: "2 days ago"
+  },
+  {
+    title: "Staff Software Engineer, Platform",
+    company: "Northwind Cloud",
+    location: "New York, NY",
+    url: "https://example.com/jobs/northwind-staff-platform",
+    source: "Fixture",
+    salary: "$210k - $250k",
+    description: "Lead design of Node.js microservices on Kubernetes and AWS. Mentoring and system design are core to the role.",
+    postedAt: "1 week ago"
+  },
+  {
+    title: "Frontend Lead",
+    company: "Globex Health",
+    location: "Austin, TX",
+    url: "https://example.com/jobs/globex-frontend-lead",
+    source: "Fixture",
+    salary: "$140,000",
+    description: "Own the patient portal built with Vue and Tailwind. Team leadership and testing culture with Cypress.",
+    postedAt: "Recent"
+  }
+];
+
+/**
+ * Offline provider backed by static listings, for tests and demos without network.
+ */
+export const createFixtureProvider = (jobs: DiscoveredJob[] = FIXTURE_JOBS): JobSourceProvider => ({
+  id: 'fixture',
+  label: 'Local Fixtures',
+  isAvailable: () => true,
+  search: async ({ query, limit }) => jobs.filter(job => matchesQuery(job.title, query)).slice(0, limit)
+});
@@ -0,0 +1,19 @@
+import { JobSourceProvider } from "../../types.ts";
+import { searchJobs } from "../gemini.ts";
+import { getConfig } from "../config.ts";
+
+/**
+ * Gemini with Google Search grounding. Slowest source, but needs no extra key.
+ */
+export const geminiSearchProvider: JobSourceProvider = {
+  id: 'gemini',
+  label: 'Gemini Grounded Search',
+  isAvailable: () => {
+    const config = getConfig();
+    return config.llmProvider === 'fixture' || (config.llmProvider === 'gemini' && !!config.geminiApiKey);
+  },
+  search: async ({ query, signal }) => {
+    const jobs = await searchJobs({ targetRoles: [query] }, { signal });
+    return jobs.map(job => ({ ...job, source: job.source || 'Gemini Search' }));
+  }
+};
@@ -0,0 +1,42 @@
+import { getConfig } from "../config.ts";
+
+// Most job APIs don't send CORS headers, so browser requests go through a proxy
+export const proxied = (url: string) => `${getConfig().corsProxy}${encodeURIComponent(url)}`;
+
+export const fetchJson = async (url: string, useProxy = true, signal?: AbortSignal): Promise<any> => {
+  const response = await fetch(useProxy ? proxied(url) : url, { signal });
+  if (!response.ok) {
+    throw new Error(`Request to ${new URL(url).hostname} failed with ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchText = async (url: string, useProxy = true, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(useProxy ? proxied(url) : url, { signal });
+  if (!response.ok) {
+    throw new Error(`Request to ${new URL(url).hostname} failed with ${response.status}`);
+  }
+  return response.text();
+};
+
+/**
+ * Strips markup (including entity-escaped markup, as Greenhouse returns) down to plain text.
+ */
+export const htmlToText = (html?: string): string => {
+  if (!html) return '';
+  const parse = (s: string) => new DOMParser().parseFromString(s, 'text/html').body.textContent || '';
+  const once = parse(html);
+  return (/<[a-z][\s\S]*>/i.test(once) ? parse(once) : once).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Loose title filter for sources that return a company's whole board.
+ */
+export const matchesQuery = (title: string, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
+  const haystack = title.toLowerCase();
+  return terms.length === 0 || terms.some(t => haystack.includes(t));
+};
+
+// Board tokens and subdomains ("acme-corp") as display names ("Acme Corp")
+export const titleCase = (token: string) => token.replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
@@ -0,0 +1,87 @@
+import { DiscoveredJob, JobSourceProvider, LlmCallOptions, UserProfile } from "../../types.ts";
+import { serpApiProvider } from "./serpApi.ts";
+import { geminiSearchProvider } from "./geminiSearch.ts";
+import { createGreenhouseProvider, createLeverProvider, createAshbyProvider } from "./boards.ts";
+import { createRssProvider } from "./rss.ts";
+import { createFixtureProvider } from "./fixture.ts";
+
+export { createFixtureProvider, FIXTURE_JOBS } from "./fixture.ts";
+
+// Aggregator platforms that Google Jobs already indexes
+const AGGREGATED_PLATFORMS = ['google jobs', 'linkedin', 'indeed', 'glassdoor', 'ziprecruiter', 'wellfound', 'monster', 'dice'];
+
+// Board adapters take a target after the colon: "Greenhouse:stripe", "RSS:https://..."
+const TARGETED_PROVIDERS: Record<string, (target: string) => JobSourceProvider> = {
+  greenhouse: createGreenhouseProvider,
+  lever: createLeverProvider,
+  ashby: createAshbyProvider,
+  rss: createRssProvider
+};
+
+const DEFAULT_RESULT_LIMIT = 20;
+
+let overrideProviders: JobSourceProvider[] | null = null;
+
+/**
+ * Replaces provider resolution entirely (e.g. with createFixtureProvider()
+ * for offline tests). Pass null to restore preference-based selection.
+ */
+export const overrideJobSources = (providers: JobSourceProvider[] | null) => {
+  overrideProviders = providers;
+};
+
+/**
+ * Maps `preferences.preferredPlatforms` entries to providers. Aggregator names
+ * route to SerpAPI; "Fixture" selects the offline provider; unknown entries are ignored.
+ */
+export const resolveJobSources = (preferredPlatforms: string[] = []): JobSourceProvider[] => {
+  if (overrideProviders) return overrideProviders;
+
+  const providers = new Map<string, JobSourceProvider>();
+  preferredPlatforms.forEach(entry => {
+    const separator = entry.indexOf(':');
+    const name = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+    const target = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+    if (TARGETED_PROVIDERS[name] && target) {
+      const provider = TARGETED_PROVIDERS[name](target);
+      providers.set(provider.id, provider);
+    } else if (AGGREGATED_PLATFORMS.includes(name)) {
+      providers.set(serpApiProvider.id, serpApiProvider);
+    } else if (name === 'gemini') {
+      providers.set(geminiSearchProvider.id, geminiSearchProvider);
+    } else if (name === 'fixture') {
+      const fixture = createFixtureProvider();
+      providers.set(fixture.id, fixture);
+    }
+  });
+
+  const available = Array.from(providers.values()).filter(p => p.isAvailable());
+  return available.length > 0 ? available : [serpApiProvider].filter(p => p.isAvailable());
+};
+
+/**
+ * Queries every selected source in parallel and concatenates their results.
+ * Falls back to Gemini grounded search when no source returns anything.
+ * Aborting `signal` cancels every source and rejects with an AbortError.
+ */
+export const searchJobsPro = async (
+  query: string,
+  preferences?: Partial<UserProfile['preferences']>,
+  { signal }: LlmCallOptions = {}
+): Promise<DiscoveredJob[]> => {
+  const providers = resolveJobSources(preferences?.preferredPlatforms);
+  const request = { query, locations: preferences?.locations, remoteOnly: preferences?.remoteOnly, limit: DEFAULT_RESULT_LIMIT, signal };
+
+  const settled = await Promise.allSettled(providers.map(p => p.search(request)));
+  signal?.throwIfAborted();
+  settled.forEach((result, i) => {
+    if (result.status === 'rejected') console.error(`Job source "${providers[i].label}" failed:`, result.reason);
+  });
+  const jobs = settled.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+
+  if (jobs.length === 0 && !overrideProviders && !providers.includes(geminiSearchProvider)) {
+    return geminiSearchProvider.search(request);
+  }
+  return jobs;
+};
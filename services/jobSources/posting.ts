@@ -0,0 +1,229 @@
+import { Job, ExtractedJobField, JobFieldSource } from "../../types.ts";
+import { fetchText, htmlToText, titleCase } from "./http.ts";
+
+export type PostingFields = Partial<Pick<Job, ExtractedJobField>>;
+
+/**
+ * What could be read from a posting page without a model, which method found
+ * each field, and the page's cleaned text for filling whatever is left.
+ */
+export interface ParsedPosting {
+  fields: PostingFields;
+  sources: Partial<Record<ExtractedJobField, JobFieldSource>>;
+  text: string;
+}
+
+// Enough for any real posting; the rest is usually footer and related jobs
+const MAX_PAGE_TEXT = 12_000;
+
+const collapse = (text?: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+const clean = (value: unknown) => typeof value === 'string' ? htmlToText(value) : '';
+
+const asArray = (value: any): any[] => value == null ? [] : Array.isArray(value) ? value : [value];
+
+export const isPresent = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? value.trim() !== '' : value != null;
+
+/**
+ * Copies fields the posting doesn't have yet, crediting `source` for each.
+ * Fields already found by an earlier method are never overwritten.
+ */
+export const mergePostingFields = (posting: ParsedPosting, fields: PostingFields, source: JobFieldSource) => {
+  (Object.keys(fields) as ExtractedJobField[]).forEach(key => {
+    if (isPresent(posting.fields[key]) || !isPresent(fields[key])) return;
+    Object.assign(posting.fields, { [key]: fields[key] });
+    posting.sources[key] = source;
+  });
+};
+
+// Unlike textContent, keeps words in adjacent block elements apart
+const textOf = (root?: Node | null) => {
+  if (!root) return '';
+  const parts: string[] = [];
+  const walker = (root.ownerDocument || root as Document).createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) parts.push(walker.currentNode.nodeValue || '');
+  return collapse(parts.join(' ')).replace(/\s+([.,;:!?])/g, '$1');
+};
+
+const firstText = (doc: Document, ...selectors: string[]) => {
+  for (const selector of selectors) {
+    const text = textOf(doc.querySelector(selector));
+    if (text) return text;
+  }
+  return '';
+};
+
+const meta = (doc: Document, property: string) =>
+  collapse(doc.querySelector(`meta[property="${property}"], meta[name="${property}"]`)?.getAttribute('content'));
+
+const findJobPostings = (node: any): any[] => {
+  if (Array.isArray(node)) return node.flatMap(findJobPostings);
+  if (!node || typeof node !== 'object') return [];
+  if (asArray(node['@type']).includes('JobPosting')) return [node];
+  return node['@graph'] ? findJobPostings(node['@graph']) : [];
+};
+
+const formatPlace = (place: any): string => {
+  if (typeof place === 'string') return place;
+  const address = place?.address;
+  if (typeof address === 'string') return address;
+  const country = typeof address?.addressCountry === 'string' ? address.addressCountry : address?.addressCountry?.name;
+  return [address?.addressLocality, address?.addressRegion, country].filter(Boolean).join(', ') || place?.name || '';
+};
+
+const formatSalary = (salary: any): string | undefined => {
+  if (typeof salary === 'string' || typeof salary === 'number') return String(salary);
+  const value = salary?.value;
+  if (value == null) return undefined;
+  const amount = typeof value !== 'object' ? value
+    : value.minValue != null && value.maxValue != null ? `${value.minValue}-${value.maxValue}`
+    : value.value ?? value.minValue ?? value.maxValue;
+  if (amount == null) return undefined;
+  const unit = value.unitText || salary.unitText;
+  return `${salary.currency || ''} ${amount}${unit ? ` / ${String(unit).toLowerCase()}` : ''}`.trim();
+};
+
+/**
+ * schema.org JobPosting data, which most career sites embed for Google Jobs.
+ * Handles single objects, arrays and `@graph` containers.
+ */
+const fromJsonLd = (doc: Document): PostingFields => {
+  const posting = Array.from(doc.querySelectorAll('script[type="application/ld+json"]')).flatMap(script => {
+    try {
+      return findJobPostings(JSON.parse(script.textContent || ''));
+    } catch {
+      return [];
+    }
+  })[0];
+  if (!posting) return {};
+
+  const org = posting.hiringOrganization;
+  const places = asArray(posting.jobLocation).map(formatPlace).filter(Boolean);
+  if (posting.jobLocationType === 'TELECOMMUTE') places.push('Remote');
+  const skills = typeof posting.skills === 'string' ? posting.skills.split(/[,;\n]/) : asArray(posting.skills);
+  const logo = typeof org?.logo === 'string' ? org.logo : org?.logo?.url;
+  return {
+    title: clean(posting.title),
+    company: typeof org === 'string' ? org : clean(org?.name),
+    location: [...new Set(places)].join(' • '),
+    description: clean(posting.description),
+    skills: skills.map(clean).filter(Boolean),
+    applyUrl: /^https?:\/\//.test(posting.url || '') ? posting.url : undefined,
+    salary: formatSalary(posting.baseSalary || posting.estimatedSalary),
+    thumbnail: typeof logo === 'string' ? logo : undefined
+  };
+};
+
+interface AtsLayout {
+  source: JobFieldSource;
+  platform: string;
+  matches: (url: URL) => boolean;
+  parse: (doc: Document, url: URL) => PostingFields;
+}
+
+const pathToken = (url: URL) => url.pathname.split('/').filter(Boolean)[0] || '';
+
+const hostIs = (url: URL, domain: string) => url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+
+// Page titles on hosted boards read "Company - Role"
+const companyFromTitle = (doc: Document) => collapse(doc.title.split(/\s+[-–|]\s+/)[0]);
+
+/**
+ * Hosted ATS pages whose markup is stable enough to read directly. Workday
+ * and Ashby render client-side, so they fall back to meta tags and the data
+ * the page bootstraps from.
+ */
+const ATS_LAYOUTS: AtsLayout[] = [
+  {
+    source: 'greenhouse',
+    platform: 'Greenhouse',
+    matches: url => hostIs(url, 'greenhouse.io'),
+    parse: (doc, url) => ({
+      title: firstText(doc, '.app-title', '.job__title h1', 'h1'),
+      company: firstText(doc, '.company-name').replace(/^at\s+/i, '') || titleCase(url.searchParams.get('for') || pathToken(url)),
+      location: firstText(doc, '.location', '.job__location'),
+      description: firstText(doc, '#content', '.job__description')
+    })
+  },
+  {
+    source: 'lever',
+    platform: 'Lever',
+    matches: url => hostIs(url, 'lever.co'),
+    parse: (doc, url) => ({
+      title: firstText(doc, '.posting-headline h2', 'h2'),
+      company: companyFromTitle(doc) || titleCase(pathToken(url)),
+      location: firstText(doc, '.posting-categories .location', '.posting-categories .sort-by-location'),
+      description: Array.from(doc.querySelectorAll('.section-wrapper .section:not(.posting-header):not(.last-section-apply)'))
+        .map(textOf)
+        .join(' ')
+    })
+  },
+  {
+    source: 'workday',
+    platform: 'Workday',
+    matches: url => hostIs(url, 'myworkdayjobs.com') || hostIs(url, 'myworkdaysite.com'),
+    parse: (doc, url) => ({
+      title: firstText(doc, '[data-automation-id="jobPostingHeader"]') || meta(doc, 'og:title'),
+      company: titleCase(url.hostname.split('.')[0]),
+      location: firstText(doc, '[data-automation-id="locations"] dd', '[data-automation-id="locations"]'),
+      description: firstText(doc, '[data-automation-id="jobPostingDescription"]') || meta(doc, 'og:description')
+    })
+  },
+  {
+    source: 'ashby',
+    platform: 'Ashby',
+    matches: url => hostIs(url, 'ashbyhq.com'),
+    parse: (doc, url) => {
+      const script = Array.from(doc.querySelectorAll('script')).find(s => s.textContent?.includes('window.__appData'));
+      let data: any = {};
+      if (script?.textContent) {
+        const source = script.textContent;
+        try {
+          data = JSON.parse(source.slice(source.indexOf('{'), source.lastIndexOf('}') + 1));
+        } catch {
+          data = {};
+        }
+      }
+      const posting = data.posting || {};
+      return {
+        title: collapse(posting.title) || meta(doc, 'og:title'),
+        company: collapse(data.organization?.name) || titleCase(pathToken(url)),
+        location: [posting.locationName, posting.workplaceType === 'Remote' || posting.isRemote ? 'Remote' : ''].filter(Boolean).join(' • '),
+        description: clean(posting.descriptionHtml) || collapse(posting.descriptionPlainText) || meta(doc, 'og:description'),
+        salary: posting.scrapeableCompensationSalarySummary || posting.compensationTierSummary
+      };
+    }
+  }
+];
+
+// Page text for the model, without chrome, scripts or markup
+const pageText = (doc: Document) => {
+  doc.querySelectorAll('script, style, noscript, svg, template, iframe, nav, header, footer, form').forEach(el => el.remove());
+  const body = textOf(doc.querySelector('main, article, [role="main"]') || doc.body);
+  return [collapse(doc.title), meta(doc, 'og:description'), body].filter(Boolean).join('\n').slice(0, MAX_PAGE_TEXT);
+};
+
+/**
+ * Reads a posting from its HTML: JSON-LD first, then the ATS layout for the
+ * host, then the URL itself for the apply link and platform.
+ */
+export const parseJobPosting = (html: string, pageUrl: string): ParsedPosting => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const url = new URL(pageUrl);
+  const posting: ParsedPosting = { fields: {}, sources: {}, text: '' };
+
+  mergePostingFields(posting, fromJsonLd(doc), 'json-ld');
+  const layout = ATS_LAYOUTS.find(l => l.matches(url));
+  if (layout) mergePostingFields(posting, { ...layout.parse(doc, url), platform: layout.platform }, layout.source);
+  mergePostingFields(posting, { applyUrl: pageUrl, platform: titleCase(url.hostname.replace(/^(www|jobs|careers)\./, '').split('.')[0]) }, 'url');
+
+  posting.text = pageText(doc);
+  return posting;
+};
+
+/**
+ * Downloads a posting page through the CORS proxy and parses it.
+ */
+export const fetchJobPosting = async (pageUrl: string, signal?: AbortSignal): Promise<ParsedPosting> =>
+  parseJobPosting(await fetchText(pageUrl, true, signal), pageUrl);
@@ -0,0 +1,50 @@
+import { JobSourceProvider, DiscoveredJob } from "../../types.ts";
+import { fetchText, htmlToText, matchesQuery } from "./http.ts";
+
+const childText = (el: Element, ...tags: string[]) => {
+  for (const tag of tags) {
+    const node = el.getElementsByTagName(tag)[0];
+    if (node?.textContent) return node.textContent.trim();
+  }
+  return '';
+};
+
+// Most job feeds title items "Role at Company" or "Company: Role"
+const splitTitle = (raw: string, fallbackCompany: string) => {
+  const at = raw.match(/^(.*?)\s+at\s+(.+)$/i);
+  if (at) return { title: at[1].trim(), company: at[2].trim() };
+  const colon = raw.match(/^([^:]{2,60}):\s+(.+)$/);
+  if (colon) return { title: colon[2].trim(), company: colon[1].trim() };
+  return { title: raw.trim(), company: fallbackCompany };
+};
+
+/**
+ * Any RSS 2.0 or Atom job feed (e.g. "RSS:https://weworkremotely.com/remote-jobs.rss").
+ */
+export const createRssProvider = (feedUrl: string): JobSourceProvider => ({
+  id: `rss:${feedUrl}`,
+  label: `RSS (${(() => { try { return new URL(feedUrl).hostname; } catch { return feedUrl; } })()})`,
+  isAvailable: () => /^https?:\/\//.test(feedUrl),
+  search: async ({ query, limit, signal }) => {
+    const xml = new DOMParser().parseFromString(await fetchText(feedUrl, true, signal), 'application/xml');
+    const feedTitle = childText(xml.documentElement, 'title') || 'RSS Feed';
+    const items = Array.from(xml.getElementsByTagName('item')).concat(Array.from(xml.getElementsByTagName('entry')));
+
+    return items
+      .map((item): DiscoveredJob => {
+        const { title, company } = splitTitle(childText(item, 'title'), childText(item, 'company', 'dc:creator', 'author') || feedTitle);
+        const link = childText(item, 'link') || item.getElementsByTagName('link')[0]?.getAttribute('href') || '#';
+        return {
+          title,
+          company,
+          location: childText(item, 'region', 'location', 'job_listing:location') || 'Not specified',
+          url: link,
+          source: feedTitle,
+          description: htmlToText(childText(item, 'description', 'content', 'summary')),
+          postedAt: childText(item, 'pubDate', 'published', 'updated') || undefined
+        };
+      })
+      .filter(job => matchesQuery(job.title, query))
+      .slice(0, limit);
+  }
+});
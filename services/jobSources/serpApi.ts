@@ -0,0 +1,30 @@
+import { JobSourceProvider, DiscoveredJob } from "../../types.ts";
+import { fetchJson } from "./http.ts";
+import { getConfig, requireSerpApiKey } from "../config.ts";
+
+/**
+ * Google Jobs via SerpAPI. Aggregates LinkedIn, Indeed, Glassdoor and others.
+ */
+export const serpApiProvider: JobSourceProvider = {
+  id: 'serpapi',
+  label: 'Google Jobs',
+  isAvailable: () => !!getConfig().serpApiKey,
+  search: async ({ query, locations, signal }) => {
+    const location = locations?.find(l => !/remote/i.test(l));
+    const params = new URLSearchParams({ engine: 'google_jobs', q: query, api_key: requireSerpApiKey() });
+    if (location) params.set('location', location);
+
+    const data = await fetchJson(`https://serpapi.com/search.json?${params.toString()}`, true, signal);
+    return (data.jobs_results || []).map((job: any): DiscoveredJob => ({
+      title: job.title,
+      company: job.company_name,
+      location: job.location,
+      url: job.related_links?.[0]?.link || job.share_link || "#",
+      source: job.via?.replace(/^via\s+/i, '') || "Google Jobs",
+      salary: job.detected_extensions?.salary || job.salary || "Not specified",
+      thumbnail: job.thumbnail,
+      description: job.description,
+      postedAt: job.detected_extensions?.posted_at || job.extensions?.find((e: string) => e.includes('ago')) || "Recent"
+    }));
+  }
+};
@@ -0,0 +1,249 @@
+import { JsonSchema, LlmCacheEntry, ModelFeature, SchemaFor } from "../../types.ts";
+import { getConfig, getModel } from "../config.ts";
+import { getCacheEntry, putCacheEntry, removeCacheEntry, purgeExpiredCacheEntries } from "../localStore.ts";
+import { supabase } from "../../lib/supabase.ts";
+import { conformToSchema } from "./structured.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * How long a cached answer stays fresh. Features not listed here are never cached.
+ */
+export const CACHE_TTL_MS: Partial<Record<ModelFeature, number>> = {
+  marketInsights: DAY_MS,
+  jobExtraction: 7 * DAY_MS,
+  matchScoring: 3 * DAY_MS
+};
+
+// Answers about public postings and markets hold nothing personal, so they may be shared
+const SHAREABLE_FEATURES: ModelFeature[] = ['marketInsights', 'jobExtraction'];
+
+const SHARED_TABLE = 'llm_cache';
+
+// Tracking parameters that don't change what a URL points at
+const TRACKING_PARAM = /^(utm_.*|ref|refid|trk|src|source|gh_src|lever-source)$/i;
+
+const normalizeUrl = (text: string) => {
+  try {
+    const url = new URL(text);
+    url.hash = '';
+    [...url.searchParams.keys()].filter(key => TRACKING_PARAM.test(key)).forEach(key => url.searchParams.delete(key));
+    url.searchParams.sort();
+    return url.toString().replace(/\/(\?|$)/, '$1');
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Reduces inputs to what matters for the answer: case, whitespace, key order,
+ * URL fragments and tracking parameters are all ignored.
+ */
+export const normalizeInputs = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    return /^https?:\/\/\S+$/i.test(text) ? normalizeUrl(text) : text.replace(/\s+/g, ' ').toLowerCase();
+  }
+  if (Array.isArray(value)) return value.map(normalizeInputs);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => [key, normalizeInputs((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+};
+
+/**
+ * SHA-256 of the feature, provider, model and normalized inputs, so the same
+ * question to the same model always lands on the same entry.
+ */
+export const cacheKey = async (feature: ModelFeature, inputs: unknown) => {
+  const { llmProvider } = getConfig();
+  const source = JSON.stringify({ feature, model: `${llmProvider}:${getModel(feature)}`, inputs: normalizeInputs(inputs) });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isFresh = (entry?: LlmCacheEntry) => !!entry && new Date(entry.expiresAt).getTime() > Date.now();
+
+const isShared = (feature: ModelFeature) => getConfig().shareLlmCache && SHAREABLE_FEATURES.includes(feature);
+
+const readShared = async <T>(key: string): Promise<LlmCacheEntry<T> | undefined> => {
+  const { data, error } = await supabase.from(SHARED_TABLE).select('*').eq('key', key).maybeSingle();
+  if (error) throw error;
+  if (!data) return undefined;
+  if (new Date(data.expires_at).getTime() <= Date.now()) {
+    // Expired rows may be purged by anyone; failing to is harmless
+    await supabase.from(SHARED_TABLE).delete().eq('key', key).lte('expires_at', new Date().toISOString());
+    return undefined;
+  }
+  return {
+    key: data.key,
+    feature: data.feature,
+    model: data.model,
+    value: data.value,
+    createdAt: data.created_at,
+    expiresAt: data.expires_at
+  };
+};
+
+const writeShared = async (entry: LlmCacheEntry) => {
+  const { error } = await supabase.from(SHARED_TABLE).upsert({
+    key: entry.key,
+    feature: entry.feature,
+    model: entry.model,
+    value: entry.value,
+    created_at: entry.createdAt,
+    expires_at: entry.expiresAt
+  });
+  if (error) throw error;
+};
+
+// Keeps only what the schema declares, so nothing extra rides along in a shared row
+const declaredOnly = (value: unknown, schema: JsonSchema): unknown => {
+  if (schema.type === 'array' && Array.isArray(value) && schema.items) return value.map(item => declaredOnly(item, schema.items!));
+  if (schema.type !== 'object' || !value || typeof value !== 'object' || !schema.properties) return value;
+  return Object.fromEntries(Object.entries(schema.properties)
+    .filter(([key]) => (value as Record<string, unknown>)[key] !== undefined)
+    .map(([key, property]) => [key, declaredOnly((value as Record<string, unknown>)[key], property)]));
+};
+
+/**
+ * Shared rows are written by other users, so they are held to the feature's
+ * schema like a fresh model reply. Anything that doesn't conform is a miss.
+ */
+const validateShared = <T>(entry: LlmCacheEntry<T>, schema: JsonSchema): LlmCacheEntry<T> | undefined => {
+  const issues: string[] = [];
+  const value = conformToSchema(entry.value, schema, issues);
+  if (issues.length) {
+    console.warn(`Ignoring shared cache entry ${entry.key}:`, issues);
+    return undefined;
+  }
+  return { ...entry, value: declaredOnly(value, schema) as T };
+};
+
+// Expired local entries are swept once per session; lookups remove the ones they hit
+let swept = false;
+
+const lookup = async <T>(key: string, feature: ModelFeature, schema?: JsonSchema): Promise<LlmCacheEntry<T> | undefined> => {
+  if (!swept) {
+    swept = true;
+    purgeExpiredCacheEntries().catch(e => console.warn("Failed to purge expired responses:", e));
+  }
+  try {
+    const local = await getCacheEntry<T>(key);
+    if (isFresh(local)) return local;
+    if (local) await removeCacheEntry(key);
+  } catch (e) {
+    console.warn("Local response cache unavailable:", e);
+  }
+  // Without a schema a shared row can't be checked, so it isn't trusted
+  if (!isShared(feature) || !schema) return undefined;
+  try {
+    const row = await readShared<T>(key);
+    const shared = row && validateShared(row, schema);
+    // Keep a local copy so the next hit doesn't need the network
+    if (shared) await putCacheEntry(shared).catch(() => {});
+    return shared;
+  } catch (e) {
+    console.warn("Shared response cache unavailable:", e);
+    return undefined;
+  }
+};
+
+const store = async (entry: LlmCacheEntry) => {
+  try {
+    await putCacheEntry(entry);
+  } catch (e) {
+    console.warn("Failed to cache response locally:", e);
+  }
+  if (!isShared(entry.feature)) return;
+  try {
+    await writeShared(entry);
+  } catch (e) {
+    console.warn("Failed to share cached response:", e);
+  }
+};
+
+export interface CachedResult<T> {
+  value: T;
+  // When the value was first computed; absent if it was computed just now
+  cachedAt?: string;
+}
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// One model request shared by every identical call made while it runs
+interface Flight {
+  promise: Promise<CachedResult<unknown>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const pending = new Map<string, Flight>();
+
+/**
+ * Waits on a shared request under the caller's own signal. Cancelling
+ * releases only this caller; the request itself stops once nobody waits on it.
+ */
+const join = <T>(flight: Flight, signal?: AbortSignal) => new Promise<CachedResult<T>>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  flight.waiters++;
+  const onAbort = () => {
+    if (--flight.waiters === 0) flight.controller.abort();
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  (flight.promise as Promise<CachedResult<T>>)
+    .then(resolve, reject)
+    .finally(() => signal?.removeEventListener('abort', onAbort));
+});
+
+/**
+ * Returns the cached answer for these inputs if it is still fresh, otherwise
+ * runs `compute` and caches what it returns. `refresh` skips the lookup but
+ * still stores the new answer; `schema` describes the value and is required
+ * for answers shared between users to be read. Identical calls in flight
+ * share one `compute`, which gets a signal of its own that aborts only when
+ * every caller has cancelled. Cache failures never fail the call.
+ */
+export const withCache = async <T>(
+  feature: ModelFeature,
+  inputs: unknown,
+  compute: (signal?: AbortSignal) => Promise<T>,
+  options: { refresh?: boolean; schema?: SchemaFor<T>; signal?: AbortSignal } = {}
+): Promise<CachedResult<T>> => {
+  const ttl = CACHE_TTL_MS[feature];
+  if (!ttl) return { value: await compute(options.signal) };
+
+  const key = await cacheKey(feature, inputs);
+  const existing = pending.get(key);
+  if (!options.refresh && existing && !existing.controller.signal.aborted) return join<T>(existing, options.signal);
+
+  const controller = new AbortController();
+  const run = async (): Promise<CachedResult<T>> => {
+    if (!options.refresh) {
+      const hit = await lookup<T>(key, feature, options.schema as JsonSchema | undefined);
+      if (hit) return { value: hit.value, cachedAt: hit.createdAt };
+    }
+    const value = await compute(controller.signal);
+    const now = Date.now();
+    await store({
+      key,
+      feature,
+      model: getModel(feature),
+      value,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttl).toISOString()
+    });
+    return { value };
+  };
+
+  const flight: Flight = { promise: run(), controller, waiters: 0 };
+  pending.set(key, flight);
+  flight.promise.catch(() => {}).finally(() => {
+    if (pending.get(key) === flight) pending.delete(key);
+  });
+  return join<T>(flight, options.signal);
+};
@@ -0,0 +1,207 @@
+import { LlmCitation, LlmClient, LlmRequest, ModelFeature } from "../../types.ts";
+import { FIXTURE_JOBS } from "../jobSources/fixture.ts";
+
+export interface LlmFixture {
+  feature: ModelFeature;
+  // Only replay when the prompt contains this text or matches this pattern
+  match?: string | RegExp;
+  response: unknown | ((request: LlmRequest) => unknown);
+  citations?: LlmCitation[];
+}
+
+/**
+ * Parses the JSON value that follows `marker` in the prompt, so fixtures can
+ * hand back the resume they were given instead of a canned one.
+ */
+const embeddedJson = (prompt: string, marker: string) => {
+  const start = prompt.indexOf(marker);
+  if (start === -1) return null;
+  const open = prompt.slice(start + marker.length).search(/[[{]/);
+  if (open === -1) return null;
+  const from = start + marker.length + open;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = from; i < prompt.length; i++) {
+    const ch = prompt[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if ((ch === '}' || ch === ']') && --depth === 0) {
+      try {
+        return JSON.parse(prompt.slice(from, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+};
+
+const FIXTURE_CITATIONS: LlmCitation[] = [
+  { web: { uri: 'https://example.com/market/frontend-2026', title: 'Frontend Hiring Report (fixture)' } }
+];
+
+const SAMPLE_RESUME = {
+  summary: 'Engineer focused on reliable, accessible web products.',
+  skills: ['TypeScript', 'React', 'Node.js'],
+  experience: [{ company: 'Example Co', role: 'Software Engineer', duration: '2021 - Present', achievements: ['Shipped the customer dashboard used by 10k accounts.'] }],
+  projects: []
+};
+
+const COMMAND_FIXTURES: { pattern: RegExp; result: (input: string) => unknown }[] = [
+  { pattern: /\b(find|search)\b.*\bgigs?\b|freelance/i, result: input => ({ action: 'find_gigs', params: { query: input } }) },
+  { pattern: /\b(find|search|look for)\b/i, result: input => ({ action: 'search_jobs', params: { query: input.replace(/^.*?\b(find|search|look for)\b\s*/i, '') } }) },
+  { pattern: /\binterview\b/i, result: () => ({ action: 'start_interview' }) },
+  { pattern: /\b(improve|rewrite)\b.*\bresume\b/i, result: input => ({ action: 'improve_resume', params: { improvement_prompt: input } }) },
+  { pattern: /\bstatus\b/i, result: () => ({ action: 'status' }) }
+];
+
+/**
+ * Canned answers for every feature, shaped like real model output. Resume
+ * rewrites echo the input back so the offline app doesn't lose data.
+ */
+export const DEFAULT_LLM_FIXTURES: LlmFixture[] = [
+  {
+    feature: 'outreach',
+    response: [
+      { platform: 'LinkedIn', recipientRole: 'Hiring Manager', message: 'Hi! I saw the opening on your team and would love to chat about how my frontend work could help.' },
+      { platform: 'Email', recipientRole: 'Recruiter', message: 'Hello,\n\nI recently applied for the role and wanted to share a short note on why I think it is a strong fit.\n\nBest regards' }
+    ]
+  },
+  {
+    feature: 'interviewEvaluation',
+    response: (request: LlmRequest) => {
+      const transcript: { text: string; speaker: string }[] = embeddedJson(request.prompt, 'Evaluate this interview transcript:') || [];
+      return {
+        overallScore: 72,
+        technicalAccuracy: 70,
+        communicationTone: 'Clear and steady',
+        keyStrengths: ['Structured answers', 'Concrete examples'],
+        improvementAreas: ['Quantify impact', 'Shorter openings'],
+        annotations: transcript.map(turn => ({ ...turn, feedback: turn.speaker === 'user' ? 'Good point; add a metric.' : '', sentiment: 'neutral' }))
+      };
+    }
+  },
+  {
+    feature: 'marketInsights',
+    response: {
+      salaryRange: '$150,000 - $190,000',
+      demandTrend: 'Stable',
+      topSkills: ['TypeScript', 'React', 'System Design', 'Accessibility'],
+      recentNews: [{ title: 'Frontend teams consolidate on TypeScript (fixture)', url: 'https://example.com/news/typescript' }]
+    },
+    citations: FIXTURE_CITATIONS
+  },
+  {
+    feature: 'careerRoadmap',
+    response: {
+      currentMarketValue: '$160k',
+      targetMarketValue: '$190k',
+      gapAnalysis: 'Strong delivery record; needs visible system design and mentoring outcomes for the next level.',
+      steps: [
+        { period: 'Months 1-2', goal: 'Own a cross-team design', actionItems: ['Write one design doc', 'Lead its review'], skillGain: ['System Design'] },
+        { period: 'Months 3-4', goal: 'Grow others', actionItems: ['Mentor two engineers'], skillGain: ['Mentoring'] },
+        { period: 'Months 5-6', goal: 'Show results', actionItems: ['Publish a case study of the project'], skillGain: ['Communication'] }
+      ]
+    },
+    citations: FIXTURE_CITATIONS
+  },
+  { feature: 'resumeAlignment', response: (request: LlmRequest) => embeddedJson(request.prompt, 'Current Track Content:') || SAMPLE_RESUME },
+  { feature: 'atsKeywords', response: ['GraphQL', 'CI/CD', 'Accessibility', 'Performance Budgets', 'Design Systems', 'Playwright', 'AWS', 'Observability'] },
+  { feature: 'resumeEnhancement', response: (request: LlmRequest) => embeddedJson(request.prompt, 'Current Content:') || SAMPLE_RESUME },
+  { feature: 'resumeMutation', response: (request: LlmRequest) => embeddedJson(request.prompt, 'Current Content:') || SAMPLE_RESUME },
+  { feature: 'resumeExpansion', response: (request: LlmRequest) => embeddedJson(request.prompt, 'Current Resume:') || SAMPLE_RESUME },
+  {
+    feature: 'gigSearch',
+    response: [
+      { title: 'React dashboard polish (fixture)', platform: 'Upwork', budget: '$1,500', description: 'Tidy up charts and tables in an existing React app.', url: 'https://example.com/gigs/react-dashboard' },
+      { title: 'TypeScript API client (fixture)', platform: 'Other', budget: '$900', description: 'Generate a typed client for a REST API.', url: 'https://example.com/gigs/ts-client' }
+    ],
+    citations: FIXTURE_CITATIONS
+  },
+  {
+    feature: 'commands',
+    response: (request: LlmRequest) => {
+      const input = request.prompt.match(/from: "([\s\S]*?)"/)?.[1] || '';
+      const command = COMMAND_FIXTURES.find(c => c.pattern.test(input));
+      return command ? command.result(input) : { action: 'blocked' };
+    }
+  },
+  { feature: 'proposals', response: 'Hi! I have shipped several projects like this one and can start this week. I would begin with a short call to confirm scope, then deliver in small, reviewable steps.' },
+  {
+    feature: 'coverLetters',
+    response: 'Dear Hiring Team,\n\nI am excited to apply for this role. My recent work building accessible React interfaces maps closely to what you describe, and I enjoy the kind of close collaboration with design your team values.\n\nThank you for your time and consideration.\n\nSincerely,\nThe Candidate'
+  },
+  {
+    feature: 'jobExtraction',
+    response: {
+      title: FIXTURE_JOBS[0].title,
+      company: FIXTURE_JOBS[0].company,
+      location: FIXTURE_JOBS[0].location,
+      skills: ['React', 'TypeScript', 'GraphQL', 'Accessibility'],
+      description: FIXTURE_JOBS[0].description,
+      applyUrl: FIXTURE_JOBS[0].url,
+      platform: 'Fixture'
+    }
+  },
+  { feature: 'jobSearch', response: FIXTURE_JOBS, citations: FIXTURE_CITATIONS },
+  {
+    feature: 'matchScoring',
+    response: (request: LlmRequest) => {
+      const tracks: { trackId: string }[] = embeddedJson(request.prompt, 'against each of these resume tracks:') || [];
+      return tracks.map((track, i) => ({ trackId: track.trackId, score: 75 - i * 5, reasoning: 'Solid overlap on the core stack.', missingSkills: ['GraphQL'] }));
+    }
+  },
+  {
+    feature: 'resumeParsing',
+    response: { fullName: 'Sample Candidate', email: 'candidate@example.com', phone: '555-0100', linkedin: '', portfolio: '', resumeJson: SAMPLE_RESUME }
+  }
+];
+
+const responseText = (fixture: LlmFixture, request: LlmRequest) => {
+  const value = typeof fixture.response === 'function' ? fixture.response(request) : fixture.response;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Streams replay in fixed-size slices so consumers see several chunks
+const STREAM_CHUNK_SIZE = 32;
+
+/**
+ * Deterministic backend that replays fixtures instead of calling a model, for
+ * running the app offline and in tests. The first fixture whose feature and
+ * `match` fit the request wins; a request nothing fits is an error.
+ */
+export const createFixtureClient = (fixtures: LlmFixture[] = DEFAULT_LLM_FIXTURES): LlmClient => {
+  const find = (request: LlmRequest) => {
+    const fixture = fixtures.find(f =>
+      f.feature === request.feature &&
+      (!f.match || (typeof f.match === 'string' ? request.prompt.includes(f.match) : f.match.test(request.prompt)))
+    );
+    if (!fixture) throw new Error(`No LLM fixture for "${request.feature}".`);
+    return fixture;
+  };
+
+  return {
+    id: 'fixture',
+    supportsGrounding: true,
+
+    generate: async (request) => {
+      request.signal?.throwIfAborted();
+      const fixture = find(request);
+      return { text: responseText(fixture, request), model: 'fixture', citations: fixture.citations || [] };
+    },
+
+    stream: async function* (request) {
+      const text = responseText(find(request), request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+};
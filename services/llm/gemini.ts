@@ -0,0 +1,66 @@
+import { GoogleGenAI, GenerateContentParameters, Schema, Type } from "@google/genai";
+import { JsonSchema, LlmClient, LlmFinishReason, LlmRequest } from "../../types.ts";
+import { getModel, requireGeminiApiKey } from "../config.ts";
+
+// Gemini spells schema types in upper case and otherwise takes the same keywords
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  })
+});
+
+const toParams = (request: LlmRequest): GenerateContentParameters => ({
+  model: getModel(request.feature),
+  contents: request.attachments?.length
+    ? { parts: [...request.attachments.map(inlineData => ({ inlineData })), { text: request.prompt }] }
+    : request.prompt,
+  config: {
+    ...(request.system && { systemInstruction: request.system }),
+    ...(request.grounded && { tools: [{ googleSearch: {} }] }),
+    ...((request.schema || request.json) && { responseMimeType: "application/json" }),
+    ...(request.schema && { responseSchema: toGeminiSchema(request.schema) }),
+    ...(request.signal && { abortSignal: request.signal })
+  }
+});
+
+const toFinishReason = (reason?: string): LlmFinishReason | undefined =>
+  !reason ? undefined : reason === 'STOP' ? 'stop' : reason === 'MAX_TOKENS' ? 'length' : 'other';
+
+/**
+ * Google Gemini through @google/genai. The key is read per request so a key
+ * saved in settings takes effect without a reload.
+ */
+export const createGeminiClient = (): LlmClient => ({
+  id: 'gemini',
+  supportsGrounding: true,
+
+  generate: async (request) => {
+    const ai = new GoogleGenAI({ apiKey: requireGeminiApiKey() });
+    const params = toParams(request);
+    const response = await ai.models.generateContent(params);
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || '',
+      model: params.model,
+      usage: usage && { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 },
+      finishReason: toFinishReason(response.candidates?.[0]?.finishReason),
+      citations: chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ web: { uri: chunk.web!.uri!, title: chunk.web!.title || chunk.web!.uri! } }))
+    };
+  },
+
+  stream: async function* (request) {
+    const ai = new GoogleGenAI({ apiKey: requireGeminiApiKey() });
+    const chunks = await ai.models.generateContentStream(toParams(request));
+    for await (const chunk of chunks) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+});
@@ -0,0 +1,42 @@
+import { LlmClient, LlmProviderId } from "../../types.ts";
+import { getConfig } from "../config.ts";
+import { createGeminiClient } from "./gemini.ts";
+import { createOpenAiClient } from "./openai.ts";
+import { createFixtureClient } from "./fixture.ts";
+import { withScheduler } from "./scheduler.ts";
+
+export { createGeminiClient } from "./gemini.ts";
+export { createOpenAiClient } from "./openai.ts";
+export { createFixtureClient, DEFAULT_LLM_FIXTURES } from "./fixture.ts";
+export type { LlmFixture } from "./fixture.ts";
+export { generateStructured, correctStructured, parseStructured, repairJson, conformToSchema, LlmResponseError } from "./structured.ts";
+export type { StructuredRequest, StructuredResponse, LlmResponseErrorKind } from "./structured.ts";
+export { streamText, streamStructured, parsePartialJson } from "./stream.ts";
+export { LlmHttpError, BudgetExceededError, getUsage, subscribeUsage, setUsageUser } from "./scheduler.ts";
+export { withCache, cacheKey, normalizeInputs, CACHE_TTL_MS } from "./cache.ts";
+export type { CachedResult } from "./cache.ts";
+
+// Every backend is wrapped in the shared scheduler (concurrency, retries, daily budget)
+const FACTORIES: Record<LlmProviderId, () => LlmClient> = {
+  gemini: createGeminiClient,
+  openai: createOpenAiClient,
+  fixture: createFixtureClient
+};
+
+const clients = new Map<LlmProviderId, LlmClient>();
+let overrideClient: LlmClient | null = null;
+
+/**
+ * Replaces the configured backend (e.g. with createFixtureClient(fixtures)
+ * in tests). Pass null to go back to the provider chosen in settings.
+ */
+export const overrideLlmClient = (client: LlmClient | null) => {
+  overrideClient = client && withScheduler(client);
+};
+
+export const getLlmClient = (): LlmClient => {
+  if (overrideClient) return overrideClient;
+  const provider = getConfig().llmProvider;
+  if (!clients.has(provider)) clients.set(provider, withScheduler(FACTORIES[provider]()));
+  return clients.get(provider)!;
+};
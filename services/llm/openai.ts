@@ -0,0 +1,93 @@
+import { LlmClient, LlmFinishReason, LlmRequest } from "../../types.ts";
+import { getConfig, getModel } from "../config.ts";
+import { LlmHttpError } from "./scheduler.ts";
+
+const toContent = (request: LlmRequest) => {
+  if (!request.attachments?.length) return request.prompt;
+  return [
+    ...request.attachments.map(({ data, mimeType }) => {
+      if (!mimeType.startsWith('image/')) {
+        throw new Error(`The local model server can't read ${mimeType} files. Switch to Gemini to import this document.`);
+      }
+      return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }),
+    { type: 'text', text: request.prompt }
+  ];
+};
+
+const toBody = (request: LlmRequest, stream: boolean) => ({
+  model: getModel(request.feature),
+  stream,
+  messages: [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    { role: 'user', content: toContent(request) }
+  ],
+  ...(request.schema
+    ? { response_format: { type: 'json_schema', json_schema: { name: request.feature, schema: request.schema } } }
+    : request.json ? { response_format: { type: 'json_object' } } : {})
+});
+
+const toFinishReason = (reason?: string): LlmFinishReason | undefined =>
+  !reason ? undefined : reason === 'stop' ? 'stop' : reason === 'length' ? 'length' : 'other';
+
+const post = async (request: LlmRequest, stream: boolean) => {
+  const { baseUrl, apiKey } = getConfig().openAi;
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+    body: JSON.stringify(toBody(request, stream)),
+    signal: request.signal
+  });
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new LlmHttpError(
+      response.status,
+      `Model server at ${baseUrl} returned ${response.status}: ${(await response.text()).slice(0, 200)}`,
+      retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+  return response;
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API, such as llama.cpp's
+ * server or Ollama. There is no search grounding, so grounded requests are
+ * answered from the model's own knowledge.
+ */
+export const createOpenAiClient = (): LlmClient => ({
+  id: 'openai',
+  supportsGrounding: false,
+
+  generate: async (request) => {
+    const data = await (await post(request, false)).json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || getModel(request.feature),
+      citations: [],
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 },
+      finishReason: toFinishReason(data.choices?.[0]?.finish_reason)
+    };
+  },
+
+  // Server-sent events: one `data: {...}` line per delta, ending with `data: [DONE]`
+  stream: async function* (request) {
+    const response = await post(request, true);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+});
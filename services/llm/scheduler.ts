@@ -0,0 +1,256 @@
+import { LlmClient, LlmRequest, LlmResponse, LlmTokenUsage, LlmUsage } from "../../types.ts";
+import { APP_STORAGE_KEY } from "../../constants.tsx";
+import { DEEP_MODEL, FAST_MODEL, getConfig, getModel } from "../config.ts";
+
+/**
+ * An HTTP failure from a model backend. `status` decides whether the
+ * scheduler retries; `retryAfterMs` comes from the Retry-After header.
+ */
+export class LlmHttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmHttpError';
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public limit: 'requests' | 'tokens', used: number, allowed: number) {
+    super(`Daily AI ${limit === 'requests' ? 'request' : 'token'} budget reached (${used.toLocaleString()} of ${allowed.toLocaleString()}). Raise it under Identity → Settings or try again tomorrow.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Calls in flight per model; anything beyond waits its turn
+const DEFAULT_CONCURRENCY = 2;
+const MODEL_CONCURRENCY: Record<string, number> = {
+  [FAST_MODEL]: 4,
+  [DEEP_MODEL]: 2
+};
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Rough size of a token, for streams and backends that don't report usage
+const CHARS_PER_TOKEN = 4;
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+const isRetryable = (error: any) => {
+  if (error?.name === 'AbortError') return false;
+  if (typeof error?.status === 'number') return RETRYABLE_STATUSES.includes(error.status);
+  // fetch rejects with a TypeError when the network is down
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+};
+
+// Full jitter: anywhere up to the exponential cap, so parallel retries spread out
+const backoffDelay = (attempt: number, error: any) => {
+  if (typeof error?.retryAfterMs === 'number') return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface Lane {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const lanes = new Map<string, Lane>();
+
+const laneFor = (model: string) => {
+  if (!lanes.has(model)) lanes.set(model, { active: 0, waiting: [] });
+  return lanes.get(model)!;
+};
+
+const acquire = (model: string, signal?: AbortSignal) => new Promise<() => void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const lane = laneFor(model);
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    lane.active--;
+    lane.waiting.shift()?.();
+    notify();
+  };
+  const start = () => {
+    signal?.removeEventListener('abort', onAbort);
+    lane.active++;
+    notify();
+    resolve(release);
+  };
+  const onAbort = () => {
+    lane.waiting = lane.waiting.filter(w => w !== start);
+    notify();
+    reject(abortError());
+  };
+
+  if (lane.active < (MODEL_CONCURRENCY[model] ?? DEFAULT_CONCURRENCY)) {
+    start();
+  } else {
+    lane.waiting.push(start);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    notify();
+  }
+});
+
+interface DailyUsage {
+  day: string;
+  requests: number;
+  tokens: number;
+}
+
+let usageUserId = 'anonymous';
+
+const usageKey = () => `${APP_STORAGE_KEY}:usage:${usageUserId}`;
+const today = () => new Date().toLocaleDateString('en-CA');
+
+const readUsage = (): DailyUsage => {
+  try {
+    const raw = localStorage.getItem(usageKey());
+    const stored: DailyUsage | null = raw ? JSON.parse(raw) : null;
+    if (stored?.day === today()) return stored;
+  } catch (e) {
+    console.error("Failed to read AI usage:", e);
+  }
+  return { day: today(), requests: 0, tokens: 0 };
+};
+
+const writeUsage = (usage: DailyUsage) => {
+  try {
+    localStorage.setItem(usageKey(), JSON.stringify(usage));
+  } catch (e) {
+    console.error("Failed to persist AI usage:", e);
+  }
+  notify();
+};
+
+const checkBudget = () => {
+  const { budget } = getConfig();
+  const usage = readUsage();
+  if (usage.requests >= budget.requests) throw new BudgetExceededError('requests', usage.requests, budget.requests);
+  if (usage.tokens >= budget.tokens) throw new BudgetExceededError('tokens', usage.tokens, budget.tokens);
+};
+
+const recordRequest = () => {
+  const usage = readUsage();
+  writeUsage({ ...usage, requests: usage.requests + 1 });
+};
+
+const recordTokens = (usage: LlmTokenUsage) => {
+  const current = readUsage();
+  writeUsage({ ...current, tokens: current.tokens + usage.inputTokens + usage.outputTokens });
+};
+
+const estimateUsage = (request: LlmRequest, output: string): LlmTokenUsage => ({
+  inputTokens: Math.ceil(((request.system?.length || 0) + request.prompt.length) / CHARS_PER_TOKEN),
+  outputTokens: Math.ceil(output.length / CHARS_PER_TOKEN)
+});
+
+/**
+ * Meters usage against this user's own budget. Call on sign-in and sign-out.
+ */
+export const setUsageUser = (userId: string | null) => {
+  usageUserId = userId || 'anonymous';
+  notify();
+};
+
+const listeners = new Set<(usage: LlmUsage) => void>();
+
+export const getUsage = (): LlmUsage => {
+  const { budget } = getConfig();
+  const usage = readUsage();
+  let active = 0;
+  let queued = 0;
+  lanes.forEach(lane => {
+    active += lane.active;
+    queued += lane.waiting.length;
+  });
+  return { ...usage, requestLimit: budget.requests, tokenLimit: budget.tokens, active, queued };
+};
+
+const notify = () => {
+  if (listeners.size === 0) return;
+  const usage = getUsage();
+  listeners.forEach(listener => listener(usage));
+};
+
+export const subscribeUsage = (listener: (usage: LlmUsage) => void) => {
+  listeners.add(listener);
+  listener(getUsage());
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Wraps a backend so every call waits for a free slot on its model, counts
+ * against the daily budget, and retries rate limits and transient failures
+ * with jittered exponential backoff. `request.signal` cancels the call while
+ * queued, while backing off, or in flight.
+ */
+export const withScheduler = (client: LlmClient): LlmClient => ({
+  ...client,
+
+  generate: async (request) => {
+    const model = getModel(request.feature);
+    const release = await acquire(model, request.signal);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        checkBudget();
+        recordRequest();
+        try {
+          const response: LlmResponse = await client.generate(request);
+          recordTokens(response.usage || estimateUsage(request, response.text));
+          return response;
+        } catch (error) {
+          if (request.signal?.aborted) throw abortError();
+          if (attempt + 1 >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+          await sleep(backoffDelay(attempt, error), request.signal);
+        }
+      }
+    } finally {
+      release();
+    }
+  },
+
+  // Retries only before the first chunk; after that a failure would duplicate text
+  stream: async function* (request) {
+    const model = getModel(request.feature);
+    const release = await acquire(model, request.signal);
+    let output = '';
+    let sent = false;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        checkBudget();
+        recordRequest();
+        sent = true;
+        try {
+          for await (const chunk of client.stream(request)) {
+            output += chunk;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          if (request.signal?.aborted) throw abortError();
+          if (output || attempt + 1 >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+          await sleep(backoffDelay(attempt, error), request.signal);
+        }
+      }
+    } finally {
+      if (sent) recordTokens(estimateUsage(request, output));
+      release();
+    }
+  }
+});
@@ -0,0 +1,62 @@
+import { DeepPartial, JsonSchema, LlmRequest } from "../../types.ts";
+import { getModel } from "../config.ts";
+import { getLlmClient } from "./index.ts";
+import { repairJson, parseStructured, correctStructured, LlmResponseError, StructuredRequest, StructuredResponse } from "./structured.ts";
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+/**
+ * Best-effort parse of a reply that is still arriving. Open strings, arrays
+ * and objects are closed where they stand; returns undefined until there is
+ * enough text to read anything.
+ */
+export const parsePartialJson = <T>(text: string): DeepPartial<T> | undefined => {
+  try {
+    return repairJson(text) as DeepPartial<T>;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Streams a plain-text reply, calling `onText` with everything received so
+ * far after each chunk. Resolves with the full text.
+ */
+export const streamText = async (request: LlmRequest, onText: (text: string) => void): Promise<string> => {
+  let text = '';
+  for await (const chunk of getLlmClient().stream(request)) {
+    if (request.signal?.aborted) throw abortError();
+    text += chunk;
+    onText(text);
+  }
+  return text;
+};
+
+/**
+ * Streams a schema-constrained reply, calling `onPartial` whenever the
+ * partially parsed value changes. Partial values are repaired but not
+ * validated, so render them defensively. The final reply is validated like
+ * generateStructured, including the one corrective retry (which is not streamed).
+ */
+export const streamStructured = async <T>(
+  request: StructuredRequest<T>,
+  onPartial: (partial: DeepPartial<T>) => void
+): Promise<StructuredResponse<T>> => {
+  let last = '';
+  const text = await streamText({ ...request, schema: request.schema as JsonSchema }, received => {
+    const partial = parsePartialJson<T>(received);
+    if (partial === undefined) return;
+    const snapshot = JSON.stringify(partial);
+    if (snapshot === last) return;
+    last = snapshot;
+    onPartial(partial);
+  });
+
+  try {
+    // Streams carry no grounding metadata, so there are no citations to return
+    return { text, model: getModel(request.feature), citations: [], data: parseStructured(request.feature, text, request.schema) };
+  } catch (e) {
+    if (!(e instanceof LlmResponseError)) throw e;
+    return correctStructured(request, e);
+  }
+};
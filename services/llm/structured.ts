@@ -0,0 +1,227 @@
+import { JsonSchema, LlmFinishReason, LlmRequest, LlmResponse, ModelFeature, SchemaFor } from "../../types.ts";
+import { MODEL_FEATURE_LABELS } from "../config.ts";
+import { getLlmClient } from "./index.ts";
+
+export type LlmResponseErrorKind = 'empty' | 'parse' | 'schema' | 'truncated';
+
+const KIND_SUMMARIES: Record<LlmResponseErrorKind, string> = {
+  empty: 'returned nothing',
+  parse: 'returned output that is not valid JSON',
+  schema: 'returned JSON in the wrong shape',
+  truncated: 'was cut off before it finished'
+};
+
+// Their replies replace what the user has saved, so a cut-off reply is never
+// patched up and stored: valid JSON missing its tail would silently drop data
+const REQUIRES_COMPLETE_REPLY: ModelFeature[] = [
+  'resumeParsing', 'resumeEnhancement', 'resumeAlignment', 'resumeExpansion', 'resumeMutation', 'careerRoadmap'
+];
+
+/**
+ * A structured response that stayed unusable after repair and one corrective
+ * retry. `raw` is the last reply, kept for debugging.
+ */
+export class LlmResponseError extends Error {
+  constructor(public feature: ModelFeature, public kind: LlmResponseErrorKind, public issues: string[], public raw: string) {
+    super(`${MODEL_FEATURE_LABELS[feature]} ${KIND_SUMMARIES[kind]}${issues.length ? ` (${issues.slice(0, 3).join('; ')})` : ''}. Nothing was changed.`);
+    this.name = 'LlmResponseError';
+  }
+}
+
+// A dangling `"key"` or `"key":` the truncation cut off before its value
+const DANGLING_KEY = /([,{])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/;
+
+export interface RepairedJson {
+  value: unknown;
+  // Unterminated strings or unclosed brackets had to be closed
+  truncated: boolean;
+}
+
+/**
+ * Parses model output as JSON, tolerating code fences, prose around the value,
+ * trailing commas and truncation (unterminated strings and unclosed brackets
+ * are closed, and `truncated` is set). Throws SyntaxError when nothing
+ * sensible can be recovered.
+ */
+export const parseJsonReply = (text: string): RepairedJson => {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) throw new SyntaxError('No JSON object or array found');
+  const source = cleaned.slice(start);
+  try {
+    return { value: JSON.parse(source), truncated: false };
+  } catch {
+    // Fall through to repair
+  }
+
+  let out = '';
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (ch === '\\') {
+        if (i + 1 < source.length) out += ch + source[++i];
+        continue;
+      }
+      out += ch;
+      if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '') + (closers.pop() || '');
+      // Anything after the outermost value is commentary
+      if (closers.length === 0) break;
+    } else {
+      out += ch;
+    }
+  }
+
+  const truncated = inString || closers.length > 0;
+  if (inString) out += '"';
+  while (closers.length) {
+    if (closers[closers.length - 1] === '}') out = out.replace(DANGLING_KEY, '$1');
+    out = out.replace(/,\s*$/, '') + closers.pop();
+  }
+  return { value: JSON.parse(out), truncated };
+};
+
+/**
+ * parseJsonReply for callers that accept partial values, such as stream previews.
+ */
+export const repairJson = (text: string): unknown => parseJsonReply(text).value;
+
+/**
+ * Checks a value against the schema, coercing the slips models commonly make
+ * (numbers as strings, enum values in the wrong case). Returns the coerced
+ * value; every violation that couldn't be coerced is appended to `issues`.
+ */
+export const conformToSchema = (value: unknown, schema: JsonSchema, issues: string[], path = '$'): unknown => {
+  switch (schema.type) {
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') {
+        issues.push(`${path} should be a string`);
+        return value;
+      }
+      if (!schema.enum) return text;
+      const match = schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase());
+      if (!match) issues.push(`${path} should be one of ${schema.enum.join(', ')}`);
+      return match ?? text;
+    }
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value.replace(/[,%]/g, '')) : value;
+      if (typeof num !== 'number' || Number.isNaN(num)) {
+        issues.push(`${path} should be a number`);
+        return value;
+      }
+      return schema.type === 'integer' ? Math.round(num) : num;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push(`${path} should be true or false`);
+      return value;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push(`${path} should be an array`);
+        return value;
+      }
+      return schema.items ? value.map((item, i) => conformToSchema(item, schema.items!, issues, `${path}[${i}]`)) : value;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path} should be an object`);
+        return value;
+      }
+      const record = { ...(value as Record<string, unknown>) };
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined || record[key] === null) issues.push(`${path}.${key} is missing`);
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          record[key] = conformToSchema(record[key], propertySchema, issues, `${path}.${key}`);
+        }
+      });
+      return record;
+    }
+  }
+};
+
+/**
+ * Repairs and validates one reply. Throws LlmResponseError describing what
+ * was wrong with it. For features that replace stored user content, a reply
+ * that hit the token limit or needed its brackets closed counts as truncated.
+ */
+export const parseStructured = <T>(feature: ModelFeature, text: string, schema: SchemaFor<T>, finishReason?: LlmFinishReason): T => {
+  if (!text.trim()) throw new LlmResponseError(feature, 'empty', [], text);
+
+  let parsed: RepairedJson;
+  try {
+    parsed = parseJsonReply(text);
+  } catch (e: any) {
+    throw new LlmResponseError(feature, finishReason === 'length' ? 'truncated' : 'parse', [e.message], text);
+  }
+  if (REQUIRES_COMPLETE_REPLY.includes(feature) && (parsed.truncated || finishReason === 'length')) {
+    throw new LlmResponseError(feature, 'truncated', [], text);
+  }
+
+  const issues: string[] = [];
+  const value = conformToSchema(parsed.value, schema as JsonSchema, issues);
+  if (issues.length) throw new LlmResponseError(feature, 'schema', issues, text);
+  return value as T;
+};
+
+export type StructuredRequest<T> = Omit<LlmRequest, 'schema' | 'json'> & { schema: SchemaFor<T> };
+
+export interface StructuredResponse<T> extends LlmResponse {
+  data: T;
+}
+
+// Replies that still fail after this many corrections are surfaced as errors
+const MAX_CORRECTIONS = 1;
+
+const correctivePrompt = (prompt: string, error: LlmResponseError) => `${prompt}
+
+Your previous reply could not be used: ${error.kind === 'schema' ? error.issues.slice(0, 10).join('; ') : KIND_SUMMARIES[error.kind]}.
+Reply again with ONLY the JSON value, matching the requested schema exactly and including every required field.${error.kind === 'truncated' ? '\nKeep every field concise so the whole reply fits.' : ''}`;
+
+const complete = async <T>(request: StructuredRequest<T>, prompt: string, corrections: number): Promise<StructuredResponse<T>> => {
+  const client = getLlmClient();
+  let attempt: LlmRequest = { ...request, prompt, schema: request.schema as JsonSchema };
+
+  for (; ; corrections++) {
+    const response = await client.generate(attempt);
+    try {
+      return { ...response, data: parseStructured(request.feature, response.text, request.schema, response.finishReason) };
+    } catch (e) {
+      if (!(e instanceof LlmResponseError) || corrections >= MAX_CORRECTIONS) throw e;
+      console.warn(`${MODEL_FEATURE_LABELS[request.feature]}: retrying invalid reply`, e.issues);
+      attempt = { ...attempt, prompt: correctivePrompt(request.prompt, e) };
+    }
+  }
+};
+
+/**
+ * Runs a schema-constrained request and returns the validated data. A reply
+ * that fails validation is retried once with the problems spelled out; if the
+ * retry fails too, the LlmResponseError propagates so callers never mistake
+ * an empty fallback for a real answer.
+ */
+export const generateStructured = <T>(request: StructuredRequest<T>): Promise<StructuredResponse<T>> =>
+  complete(request, request.prompt, 0);
+
+/**
+ * The corrective retry for a reply that was produced some other way (such as
+ * a stream) and failed validation. Counts as the one allowed correction.
+ */
+export const correctStructured = <T>(request: StructuredRequest<T>, error: LlmResponseError): Promise<StructuredResponse<T>> => {
+  console.warn(`${MODEL_FEATURE_LABELS[request.feature]}: retrying invalid reply`, error.issues);
+  return complete(request, correctivePrompt(request.prompt, error), 1);
+};
@@ -0,0 +1,136 @@
+import { UserProfile, ApplicationLog, InterviewSession, DiscoveredJob, QueuedMutation, LlmCacheEntry } from "../types.ts";
+import { APP_STORAGE_KEY } from "../constants.tsx";
+
+/**
+ * IndexedDB-backed copy of the user's data so the app opens, and keeps
+ * accepting edits, without a connection. Each collection is stored as one
+ * record per user stamped with the time it last changed.
+ */
+
+const DB_VERSION = 2;
+const RECORDS_STORE = 'records';
+export const MUTATIONS_STORE = 'mutations';
+const CACHE_STORE = 'llm_cache';
+
+export interface LocalCollections {
+  profile: UserProfile;
+  applications: ApplicationLog[];
+  interview_history: InterviewSession[];
+  discovered_jobs: DiscoveredJob[];
+}
+
+export type LocalCollection = keyof LocalCollections;
+
+export interface LocalRecord<K extends LocalCollection = LocalCollection> {
+  key: string;
+  userId: string;
+  collection: K;
+  value: LocalCollections[K];
+  updatedAt: string;
+}
+
+export type LocalSnapshot = { [K in LocalCollection]?: LocalRecord<K> };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(APP_STORAGE_KEY, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+const recordKey = (userId: string, collection: LocalCollection) => `${userId}:${collection}`;
+
+export const saveLocal = async <K extends LocalCollection>(userId: string, collection: K, value: LocalCollections[K], updatedAt = new Date().toISOString()) => {
+  const record: LocalRecord<K> = { key: recordKey(userId, collection), userId, collection, value, updatedAt };
+  await withStore(RECORDS_STORE, 'readwrite', s => s.put(record));
+};
+
+export const loadLocal = async <K extends LocalCollection>(userId: string, collection: K): Promise<LocalRecord<K> | undefined> =>
+  withStore(RECORDS_STORE, 'readonly', s => s.get(recordKey(userId, collection)));
+
+export const loadLocalSnapshot = async (userId: string): Promise<LocalSnapshot> => {
+  const [profile, applications, interview_history, discovered_jobs] = await Promise.all([
+    loadLocal(userId, 'profile'),
+    loadLocal(userId, 'applications'),
+    loadLocal(userId, 'interview_history'),
+    loadLocal(userId, 'discovered_jobs')
+  ]);
+  return { profile, applications, interview_history, discovered_jobs };
+};
+
+export const putMutation = async (mutation: QueuedMutation) => {
+  await withStore(MUTATIONS_STORE, 'readwrite', s => s.put(mutation));
+};
+
+export const removeMutation = async (id: string) => {
+  await withStore(MUTATIONS_STORE, 'readwrite', s => s.delete(id));
+};
+
+/**
+ * Queued mutations in the order they were made.
+ */
+export const listMutations = async (): Promise<QueuedMutation[]> => {
+  const all = await withStore<QueuedMutation[]>(MUTATIONS_STORE, 'readonly', s => s.getAll());
+  return all.sort((a, b) => a.sequence - b.sequence);
+};
+
+export const getCacheEntry = async <T>(key: string): Promise<LlmCacheEntry<T> | undefined> =>
+  withStore(CACHE_STORE, 'readonly', s => s.get(key));
+
+export const putCacheEntry = async (entry: LlmCacheEntry) => {
+  await withStore(CACHE_STORE, 'readwrite', s => s.put(entry));
+};
+
+export const removeCacheEntry = async (key: string) => {
+  await withStore(CACHE_STORE, 'readwrite', s => s.delete(key));
+};
+
+/**
+ * Deletes every cached response that expired before `now`.
+ */
+export const purgeExpiredCacheEntries = async (now = new Date().toISOString()) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(CACHE_STORE, 'readwrite');
+    const request = transaction.objectStore(CACHE_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as LlmCacheEntry).expiresAt <= now) cursor.delete();
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Whichever side changed last wins. A missing timestamp always loses.
+ */
+export const isNewer = (a?: string, b?: string) =>
+  !!a && (!b || new Date(a).getTime() > new Date(b).getTime());
@@ -0,0 +1,134 @@
+import { Job, ResumeTrack, UserProfile, MatchFactor, MatchFactorKey } from "../types.ts";
+import { scoreAtsCoverage } from "./ats.ts";
+
+/**
+ * Relative importance of each deterministic factor. Factors without enough
+ * data (e.g. no salary in the posting) drop out and the rest are re-normalized.
+ */
+export const LOCAL_FACTOR_WEIGHTS: Record<Exclude<MatchFactorKey, 'llm'>, number> = {
+  skills: 0.5,
+  location: 0.2,
+  salary: 0.15,
+  remote: 0.15
+};
+
+// Share of the final score given to the model's judgement vs. local heuristics
+export const LLM_BLEND_WEIGHT = 0.5;
+
+const HOURS_PER_YEAR = 2080;
+const REMOTE_PATTERN = /\b(remote|anywhere|work from home|wfh|distributed)\b/i;
+
+const CURRENCY = String.raw`(?:[$£€¥₹]|\b(?:usd|eur|gbp|cad|aud|chf|inr)\b)`;
+const CURRENCY_BEFORE = new RegExp(`${CURRENCY}\\s*$`);
+const CURRENCY_AFTER = new RegExp(`^\\s*${CURRENCY}`);
+const SALARY_CONTEXT = new RegExp(`salary|compensation|\\bpay\\b|\\bbase\\b|\\bote\\b|annual|per (?:year|annum)|a year|/\\s*y(?:ea)?r|${CURRENCY}`);
+const HOURLY = /\/\s*h(ou)?r|hourly|per hour|an hour/;
+const AMOUNT = /(\d+(?:\.\d+)?)\s*(k|m)?(?![a-z\d])/g;
+const RANGE_JOINER = new RegExp(`^\\s*(?:-|–|—|to)\\s*${CURRENCY}?\\s*$`);
+// "401k" and "403(b)" are retirement plans, not pay
+const RETIREMENT_PLAN = /\b40[13]\s*\(?[kb]\)?/g;
+// Below this a bare range ("2015-2020") is more likely years than annual pay
+const MIN_BARE_ANNUAL = 10_000;
+
+/**
+ * Parses salary strings like "160k", "$150,000 - $180,000" or "$75/hr" into
+ * annual figures. Returns the lowest and highest amount mentioned.
+ *
+ * Numbers only count as pay when they carry a currency, a k/m suffix in text
+ * that talks about pay, or form a range; headcounts, years and plan names
+ * are ignored. `isSalary` is for text known to be a salary, such as the
+ * user's floor or a posting's salary field, where bare numbers count too.
+ */
+export const parseSalary = (text?: string, isSalary = false): { min: number; max: number } | null => {
+  if (!text) return null;
+  const lower = text.toLowerCase().replace(/(\d),(?=\d{3})/g, '$1').replace(RETIREMENT_PLAN, ' ');
+  const hourly = HOURLY.test(lower);
+  const context = isSalary || hourly || SALARY_CONTEXT.test(lower);
+
+  const found = Array.from(lower.matchAll(AMOUNT)).map(match => ({
+    value: parseFloat(match[1]),
+    suffix: match[2],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+  const scaled = (amount: typeof found[number]) =>
+    amount.value * (amount.suffix === 'k' ? 1000 : amount.suffix === 'm' ? 1000000 : 1);
+  const accepted = found.map(amount => isSalary
+    || CURRENCY_BEFORE.test(lower.slice(0, amount.start))
+    || CURRENCY_AFTER.test(lower.slice(amount.end))
+    || (!!amount.suffix && context));
+
+  // Both ends of a range share its unit ("150-180k") and count together
+  found.forEach((low, i) => {
+    const high = found[i + 1];
+    if (!high || !RANGE_JOINER.test(lower.slice(low.end, high.start))) return;
+    if (!low.suffix) low.suffix = high.suffix;
+    const plausible = scaled(low) <= scaled(high) && (hourly || scaled(low) >= MIN_BARE_ANNUAL);
+    if (accepted[i] || accepted[i + 1] || plausible) accepted[i] = accepted[i + 1] = true;
+  });
+
+  const amounts = found
+    .filter((_, i) => accepted[i])
+    .map(amount => hourly ? scaled(amount) * HOURS_PER_YEAR : scaled(amount))
+    .filter(value => value >= 1000);
+  if (amounts.length === 0) return null;
+  return { min: Math.min(...amounts), max: Math.max(...amounts) };
+};
+
+const isRemoteJob = (job: Pick<Job, 'location' | 'description'>) =>
+  REMOTE_PATTERN.test(job.location || '') || REMOTE_PATTERN.test((job.description || '').slice(0, 500));
+
+const unknown = (key: MatchFactor['key'], detail: string): MatchFactor => ({ key, score: 0, weight: 0, detail, known: false });
+
+const scoreLocation = (job: Job, preferences: UserProfile['preferences']): MatchFactor => {
+  const locations = (preferences?.locations || []).filter(Boolean);
+  if (locations.length === 0 || !job.location) return unknown('location', 'No location preference or job location');
+  const jobLocation = job.location.toLowerCase();
+  const hit = locations.find(l => jobLocation.includes(l.toLowerCase()) || (REMOTE_PATTERN.test(l) && isRemoteJob(job)));
+  return hit
+    ? { key: 'location', score: 100, weight: LOCAL_FACTOR_WEIGHTS.location, detail: `Matches preferred location "${hit}"`, known: true }
+    : { key: 'location', score: 0, weight: LOCAL_FACTOR_WEIGHTS.location, detail: `${job.location} is outside ${locations.join(', ')}`, known: true };
+};
+
+const scoreSalary = (job: Job, preferences: UserProfile['preferences']): MatchFactor => {
+  const floor = parseSalary(preferences?.minSalary, true)?.min;
+  const offered = parseSalary(job.salary, true);
+  if (!floor || !offered) return unknown('salary', 'Salary not listed or no minimum set');
+  const score = offered.max >= floor ? 100 : Math.round((offered.max / floor) * 100);
+  return {
+    key: 'salary',
+    score,
+    weight: LOCAL_FACTOR_WEIGHTS.salary,
+    detail: offered.max >= floor ? `Pays up to ${Math.round(offered.max / 1000)}k, meets the ${Math.round(floor / 1000)}k floor` : `Tops out at ${Math.round(offered.max / 1000)}k, below the ${Math.round(floor / 1000)}k floor`,
+    known: true
+  };
+};
+
+const scoreRemote = (job: Job, preferences: UserProfile['preferences']): MatchFactor => {
+  if (!preferences?.remoteOnly) return unknown('remote', 'Remote not required');
+  const remote = isRemoteJob(job);
+  return { key: 'remote', score: remote ? 100 : 0, weight: LOCAL_FACTOR_WEIGHTS.remote, detail: remote ? 'Remote-friendly role' : 'Role does not appear to be remote', known: true };
+};
+
+/**
+ * Deterministic factor breakdown for one resume track against a job.
+ */
+export const scoreLocalFactors = (job: Job, track: ResumeTrack, preferences: UserProfile['preferences']) => {
+  const coverage = scoreAtsCoverage(track.content, job);
+  const hasKeywords = coverage.matched.length + coverage.missing.length > 0;
+  const skills: MatchFactor = hasKeywords
+    ? { key: 'skills', score: coverage.score, weight: LOCAL_FACTOR_WEIGHTS.skills, detail: `${coverage.matched.length} of ${coverage.matched.length + coverage.missing.length} keywords covered`, known: true }
+    : unknown('skills', 'No recognizable skills in the posting');
+
+  const factors = [skills, scoreLocation(job, preferences), scoreSalary(job, preferences), scoreRemote(job, preferences)];
+  return { factors, score: blendFactors(factors), missingSkills: coverage.missing };
+};
+
+/**
+ * Weighted average over the factors that had enough data to score.
+ */
+export const blendFactors = (factors: MatchFactor[]): number | null => {
+  const known = factors.filter(f => f.known && f.weight > 0);
+  const total = known.reduce((sum, f) => sum + f.weight, 0);
+  return total > 0 ? Math.round(known.reduce((sum, f) => sum + f.score * f.weight, 0) / total) : null;
+};
@@ -0,0 +1,29 @@
+/**
+ * Browser notifications, routed through the service worker when it is
+ * registered so they also work for the installed PWA.
+ */
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const APP_ICON = 'https://cdn-icons-png.flaticon.com/512/2906/2906206.png';
+
+export const notify = async (title: string, body: string, options: { tag?: string; tab?: string } = {}) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const payload: NotificationOptions = { body, tag: options.tag, icon: APP_ICON, data: { tab: options.tab } };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, payload);
+    } else {
+      new Notification(title, payload);
+    }
+  } catch (e) {
+    console.error("Failed to show notification:", e);
+  }
+};
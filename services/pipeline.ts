@@ -0,0 +1,239 @@
+import { Job, ResumeTrack, UserProfile, ApplicationLog, ApplicationStatus, PipelineCheckpoint, CoverLetterStyle } from "../types.ts";
+import { APP_STORAGE_KEY } from "../constants.tsx";
+import { extractJobData, calculateMatchScore, generateCoverLetter } from "./gemini.ts";
+import { tailorResumeForJob } from "./resumeMutation.ts";
+
+/**
+ * Ordered stages a job walks through on its way to a dispatched application.
+ * COMPLETED, FAILED and RISK_HALT are terminal and never executed as stages.
+ */
+export const PIPELINE_STAGES: ApplicationStatus[] = [
+  ApplicationStatus.EXTRACTING,
+  ApplicationStatus.MATCHING,
+  ApplicationStatus.GENERATING_CL,
+  ApplicationStatus.MUTATING_RESUME,
+  ApplicationStatus.APPLYING,
+  ApplicationStatus.VERIFYING
+];
+
+export const STAGE_LABELS: Record<string, string> = {
+  [ApplicationStatus.EXTRACTING]: 'Extract',
+  [ApplicationStatus.MATCHING]: 'Match',
+  [ApplicationStatus.GENERATING_CL]: 'Cover Letter',
+  [ApplicationStatus.MUTATING_RESUME]: 'Tailor Resume',
+  [ApplicationStatus.APPLYING]: 'Dispatch',
+  [ApplicationStatus.VERIFYING]: 'Verify'
+};
+
+interface StageContext {
+  job: Job;
+  track: ResumeTrack;
+  profile: UserProfile;
+  log: ApplicationLog;
+  signal?: AbortSignal;
+}
+
+/**
+ * A stage returns the fields it changed on the log (and optionally the job).
+ * Throwing marks the run FAILED; returning `halt` stops it with RISK_HALT.
+ */
+interface StageOutcome {
+  job?: Job;
+  log?: Partial<ApplicationLog>;
+  match?: PipelineCheckpoint['match'];
+  halt?: string;
+  event?: string;
+}
+
+type StageHandler = (ctx: StageContext) => Promise<StageOutcome>;
+
+const STAGE_HANDLERS: Record<string, StageHandler> = {
+  [ApplicationStatus.EXTRACTING]: async ({ job, signal }) => {
+    if (job.description?.trim() || !job.applyUrl?.startsWith('http')) {
+      return { event: 'Job details already present, extraction skipped' };
+    }
+    const extracted = await extractJobData(job.applyUrl, { signal });
+    return {
+      job: { ...job, ...extracted, id: job.id, scrapedAt: extracted.scrapedAt },
+      event: `Extracted posting from ${job.applyUrl}`
+    };
+  },
+
+  [ApplicationStatus.MATCHING]: async ({ job, track, profile, signal }) => {
+    const match = await calculateMatchScore(job, { ...profile, resumeTracks: [track] }, { signal });
+    const threshold = profile.preferences?.matchThreshold ?? 0;
+    if (typeof match?.score !== 'number') {
+      throw new Error('Match scoring returned no score.');
+    }
+    if (match.score < threshold) {
+      return { match, halt: `Match score ${match.score}% is below the ${threshold}% threshold` };
+    }
+    return { match, event: `Matched at ${match.score}% using track "${track.name}"` };
+  },
+
+  [ApplicationStatus.GENERATING_CL]: async ({ job, track, profile, log, signal }) => {
+    const style = log.pipeline?.coverLetterStyle || CoverLetterStyle.MODERN;
+    const coverLetter = await generateCoverLetter(job, track, style, profile.fullName, { signal });
+    return { log: { coverLetter }, event: `${style} cover letter drafted` };
+  },
+
+  [ApplicationStatus.MUTATING_RESUME]: async ({ job, track, signal }) => {
+    const { resume, report } = await tailorResumeForJob(track.content, job, { signal });
+    return {
+      log: { mutatedResume: resume, mutationReport: report },
+      event: `Resume tailored, ATS coverage ${report.atsScoreBefore}% → ${report.atsScoreEstimate}%`
+    };
+  },
+
+  [ApplicationStatus.APPLYING]: async ({ job }) => {
+    if (!job.applyUrl || !job.applyUrl.startsWith('http')) {
+      throw new Error('Job has no usable application URL.');
+    }
+    return {
+      log: { url: job.applyUrl, timestamp: new Date().toISOString() },
+      event: `Dispatch package prepared for ${job.applyUrl}`
+    };
+  },
+
+  [ApplicationStatus.VERIFYING]: async ({ log }) => {
+    const missing: string[] = [];
+    if (!log.coverLetter) missing.push('cover letter');
+    if (!log.mutatedResume) missing.push('resume');
+    if (!log.url) missing.push('application URL');
+    if (missing.length > 0) {
+      throw new Error(`Verification failed, missing: ${missing.join(', ')}.`);
+    }
+    return { event: 'Artifacts verified' };
+  }
+};
+
+const nextStageIndex = (checkpoint: PipelineCheckpoint) =>
+  checkpoint.lastCompletedStage ? PIPELINE_STAGES.indexOf(checkpoint.lastCompletedStage) + 1 : 0;
+
+/**
+ * True when a run stopped (or was interrupted) before completing and can be
+ * picked up again from its checkpoint.
+ */
+export const isResumable = (log: ApplicationLog) =>
+  !!log.pipeline && log.status !== ApplicationStatus.COMPLETED && log.status !== ApplicationStatus.RISK_HALT;
+
+export const createPipelineLog = (job: Job, track: ResumeTrack, coverLetterStyle: CoverLetterStyle = CoverLetterStyle.MODERN): ApplicationLog => ({
+  id: Math.random().toString(36).substr(2, 9),
+  jobId: job.id,
+  jobTitle: job.title,
+  company: job.company,
+  status: ApplicationStatus.PENDING,
+  timestamp: new Date().toISOString(),
+  url: job.applyUrl,
+  platform: job.platform,
+  location: job.location,
+  pipeline: {
+    job,
+    trackId: track.id,
+    coverLetterStyle,
+    lastCompletedStage: null,
+    events: [],
+    updatedAt: new Date().toISOString()
+  }
+});
+
+/**
+ * Walks an ApplicationLog through PIPELINE_STAGES, starting after the last
+ * completed stage of its checkpoint. `onTransition` receives a fresh copy of
+ * the log after every status change so callers can persist it. Aborting
+ * `signal` fails the run at the current stage, leaving it resumable.
+ */
+export const runApplicationPipeline = async (
+  initial: ApplicationLog,
+  profile: UserProfile,
+  onTransition: (log: ApplicationLog) => void,
+  signal?: AbortSignal
+): Promise<ApplicationLog> => {
+  if (!initial.pipeline) {
+    throw new Error('Application has no pipeline checkpoint to run from.');
+  }
+
+  let log: ApplicationLog = { ...initial, pipeline: { ...initial.pipeline, error: undefined } };
+  const commit = (updates: Partial<ApplicationLog>, checkpoint: Partial<PipelineCheckpoint> = {}) => {
+    log = {
+      ...log,
+      ...updates,
+      pipeline: { ...log.pipeline!, ...checkpoint, updatedAt: new Date().toISOString() }
+    };
+    onTransition(log);
+  };
+  const record = (event: string) => [...log.pipeline!.events, `[${new Date().toLocaleTimeString()}] ${event}`];
+
+  const track = profile.resumeTracks.find(t => t.id === log.pipeline!.trackId);
+  if (!track) {
+    commit({ status: ApplicationStatus.FAILED }, { error: 'Selected resume track no longer exists.' });
+    return log;
+  }
+
+  for (const stage of PIPELINE_STAGES.slice(nextStageIndex(log.pipeline!))) {
+    if (signal?.aborted) {
+      commit({ status: ApplicationStatus.FAILED }, { error: 'Run cancelled.', events: record(`Cancelled before ${STAGE_LABELS[stage]}`) });
+      return log;
+    }
+    commit({ status: stage }, { events: record(`${STAGE_LABELS[stage]} started`) });
+    try {
+      const outcome = await STAGE_HANDLERS[stage]({ job: log.pipeline!.job, track, profile, log, signal });
+      // A stage that finished after the run was cancelled must not leave its output behind
+      signal?.throwIfAborted();
+      const job = outcome.job || log.pipeline!.job;
+      const jobFields = outcome.job ? { jobTitle: job.title, company: job.company, location: job.location, platform: job.platform } : {};
+      const match = outcome.match || log.pipeline!.match;
+
+      if (outcome.halt) {
+        commit({ ...jobFields, ...outcome.log, status: ApplicationStatus.RISK_HALT }, { job, match, events: record(outcome.halt) });
+        return log;
+      }
+      commit(
+        { ...jobFields, ...outcome.log },
+        { job, match, lastCompletedStage: stage, events: outcome.event ? record(outcome.event) : log.pipeline!.events }
+      );
+    } catch (e: any) {
+      const message = signal?.aborted ? 'Run cancelled.' : e?.message || 'Unknown pipeline error';
+      commit({ status: ApplicationStatus.FAILED }, { error: message, events: record(`${STAGE_LABELS[stage]} failed: ${message}`) });
+      return log;
+    }
+  }
+
+  commit(
+    {
+      status: ApplicationStatus.COMPLETED,
+      verification: { ...log.verification, networkLogs: log.pipeline!.events.slice().reverse() }
+    },
+    { events: record('Pipeline completed') }
+  );
+  return log;
+};
+
+// One list per user, so runs never surface in another account signed in on the same device
+const pipelineKey = (userId: string) => `${APP_STORAGE_KEY}:pipelines:${userId}`;
+
+// Earlier builds kept every user's runs under one key; its owner can't be told apart, so it is dropped
+const SHARED_PIPELINE_KEY = `${APP_STORAGE_KEY}:pipelines`;
+
+/**
+ * Local checkpoint store so interrupted runs survive a reload.
+ */
+export const loadPipelineRuns = (userId: string): ApplicationLog[] => {
+  try {
+    localStorage.removeItem(SHARED_PIPELINE_KEY);
+    const raw = localStorage.getItem(pipelineKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to read pipeline checkpoints:", e);
+    return [];
+  }
+};
+
+export const savePipelineRun = (userId: string, log: ApplicationLog) => {
+  try {
+    const runs = loadPipelineRuns(userId).filter(r => r.id !== log.id);
+    localStorage.setItem(pipelineKey(userId), JSON.stringify([log, ...runs]));
+  } catch (e) {
+    console.error("Failed to persist pipeline checkpoint:", e);
+  }
+};
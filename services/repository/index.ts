@@ -0,0 +1,18 @@
+import { Repository } from "../../types.ts";
+import { createSupabaseRepository } from "./supabase.ts";
+
+export { createInMemoryRepository } from "./memory.ts";
+export type { InMemorySeed } from "./memory.ts";
+export * from "./mappers.ts";
+
+let activeRepository: Repository = createSupabaseRepository();
+
+/**
+ * Swaps the backing store (e.g. with createInMemoryRepository() to run the
+ * UI without Supabase). Pass null to restore the Supabase repository.
+ */
+export const overrideRepository = (repository: Repository | null) => {
+  activeRepository = repository || createSupabaseRepository();
+};
+
+export const getRepository = (): Repository => activeRepository;
@@ -0,0 +1,120 @@
+import { UserProfile, ApplicationLog, ApplicationStatus, InterviewSession, CareerRoadmap, DiscoveredJob, StoredProfile } from "../../types.ts";
+import { DEFAULT_PROFILE } from "../../constants.tsx";
+
+/**
+ * Row shapes of the Supabase tables and the only place snake_case columns
+ * are translated to and from the app's camelCase types.
+ */
+
+export interface ProfileRow {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin: string | null;
+  portfolio: string | null;
+  resume_tracks: UserProfile['resumeTracks'] | null;
+  preferences: UserProfile['preferences'] | null;
+  interview_history: InterviewSession[] | null;
+  updated_at?: string | null;
+}
+
+export interface ApplicationRow {
+  id: string;
+  user_id: string;
+  job_id: string;
+  job_title: string;
+  company: string;
+  status: string;
+  timestamp: string;
+  url: string;
+  platform: string | null;
+  location: string | null;
+  cover_letter: string | null;
+  mutated_resume: ApplicationLog['mutatedResume'] | null;
+  mutation_report: ApplicationLog['mutationReport'] | null;
+  verification: ApplicationLog['verification'] | null;
+  stage: ApplicationLog['stage'] | null;
+  stage_history: ApplicationLog['stageHistory'] | null;
+  next_actions: ApplicationLog['nextActions'] | null;
+  updated_at: string | null;
+}
+
+export interface RoadmapRow {
+  user_id: string;
+  roadmap: CareerRoadmap;
+  updated_at: string;
+}
+
+export interface DiscoveredJobsRow {
+  user_id: string;
+  jobs: DiscoveredJob[];
+  updated_at: string;
+}
+
+export const profileFromRow = (row: ProfileRow): StoredProfile => ({
+  profile: {
+    fullName: row.full_name || "",
+    email: row.email || "",
+    phone: row.phone || "",
+    linkedin: row.linkedin || "",
+    portfolio: row.portfolio || "",
+    resumeTracks: row.resume_tracks || [],
+    preferences: row.preferences || DEFAULT_PROFILE.preferences
+  },
+  interviewHistory: row.interview_history || [],
+  updatedAt: row.updated_at || undefined
+});
+
+export const profileToRow = (userId: string, profile: UserProfile, updatedAt?: string): Omit<ProfileRow, 'interview_history'> => ({
+  id: userId,
+  full_name: profile.fullName,
+  email: profile.email,
+  phone: profile.phone,
+  linkedin: profile.linkedin,
+  portfolio: profile.portfolio,
+  resume_tracks: profile.resumeTracks || [],
+  preferences: profile.preferences,
+  ...(updatedAt ? { updated_at: updatedAt } : {})
+});
+
+export const applicationFromRow = (row: ApplicationRow): ApplicationLog => ({
+  id: row.id,
+  jobId: row.job_id,
+  jobTitle: row.job_title,
+  company: row.company,
+  status: row.status as ApplicationStatus,
+  timestamp: row.timestamp,
+  url: row.url,
+  platform: row.platform || 'Other',
+  location: row.location || 'Remote',
+  coverLetter: row.cover_letter || undefined,
+  mutatedResume: row.mutated_resume || undefined,
+  mutationReport: row.mutation_report || undefined,
+  verification: row.verification || undefined,
+  stage: row.stage || undefined,
+  stageHistory: row.stage_history || undefined,
+  nextActions: row.next_actions || [],
+  updatedAt: row.updated_at || undefined
+});
+
+export const applicationToRow = (userId: string, app: ApplicationLog): ApplicationRow => ({
+  id: app.id,
+  user_id: userId,
+  job_id: app.jobId,
+  job_title: app.jobTitle,
+  company: app.company,
+  status: app.status,
+  timestamp: app.timestamp,
+  url: app.url,
+  platform: app.platform || null,
+  location: app.location || null,
+  cover_letter: app.coverLetter || null,
+  mutated_resume: app.mutatedResume || null,
+  mutation_report: app.mutationReport || null,
+  verification: app.verification || null,
+  stage: app.stage || null,
+  stage_history: app.stageHistory || null,
+  next_actions: app.nextActions || [],
+  updated_at: app.updatedAt || new Date().toISOString()
+});
@@ -0,0 +1,81 @@
+import { Repository, StoredProfile, StoredDiscoveredJobs, ApplicationLog, CareerRoadmap } from "../../types.ts";
+import { isNewer } from "../localStore.ts";
+
+export interface InMemorySeed {
+  profiles?: Record<string, StoredProfile>;
+  applications?: Record<string, ApplicationLog[]>;
+  roadmaps?: Record<string, CareerRoadmap>;
+  discoveredJobs?: Record<string, StoredDiscoveredJobs>;
+}
+
+// Records are cloned on the way in and out so callers can't mutate the store
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Repository held entirely in memory, for exercising the UI without Supabase.
+ */
+export const createInMemoryRepository = (seed: InMemorySeed = {}): Repository => {
+  const profiles = new Map(Object.entries(clone(seed.profiles || {})));
+  const applications = new Map(Object.entries(clone(seed.applications || {})));
+  const roadmaps = new Map(Object.entries(clone(seed.roadmaps || {})));
+  const discoveredJobs = new Map(Object.entries(clone(seed.discoveredJobs || {})));
+
+  const requireProfile = (userId: string) => {
+    const stored = profiles.get(userId);
+    if (!stored) throw new Error(`No profile for user ${userId}`);
+    return stored;
+  };
+
+  return {
+    getProfile: async (userId) => {
+      const stored = profiles.get(userId);
+      return stored ? clone(stored) : null;
+    },
+
+    createProfile: async (userId, profile) => {
+      const stored: StoredProfile = { profile: clone(profile), interviewHistory: [], updatedAt: new Date().toISOString() };
+      profiles.set(userId, stored);
+      return clone(stored);
+    },
+
+    saveProfile: async (userId, profile, updatedAt) => {
+      const existing = profiles.get(userId);
+      profiles.set(userId, { interviewHistory: existing?.interviewHistory || [], profile: clone(profile), updatedAt });
+    },
+
+    listApplications: async (userId) =>
+      clone(applications.get(userId) || []).sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+
+    saveApplication: async (userId, app) => {
+      const list = applications.get(userId) || [];
+      if (isNewer(list.find(a => a.id === app.id)?.updatedAt, app.updatedAt)) return { status: 'stale' };
+      const { pipeline, sync, ...stored } = app;
+      applications.set(userId, [clone(stored), ...list.filter(a => a.id !== app.id)]);
+      return { status: 'applied' };
+    },
+
+    listInterviewSessions: async (userId) => clone(profiles.get(userId)?.interviewHistory || []),
+
+    saveInterviewSessions: async (userId, sessions, updatedAt) => {
+      profiles.set(userId, { ...requireProfile(userId), interviewHistory: clone(sessions), updatedAt });
+    },
+
+    getRoadmap: async (userId) => {
+      const roadmap = roadmaps.get(userId);
+      return roadmap ? clone(roadmap) : null;
+    },
+
+    saveRoadmap: async (userId, roadmap) => {
+      roadmaps.set(userId, clone(roadmap));
+    },
+
+    getDiscoveredJobs: async (userId) => {
+      const stored = discoveredJobs.get(userId);
+      return stored ? clone(stored) : null;
+    },
+
+    saveDiscoveredJobs: async (userId, jobs, updatedAt) => {
+      discoveredJobs.set(userId, { jobs: clone(jobs), updatedAt });
+    }
+  };
+};
@@ -0,0 +1,88 @@
+import { Repository } from "../../types.ts";
+import { supabase } from "../../lib/supabase.ts";
+import { enqueueMutation } from "../syncQueue.ts";
+import { ProfileRow, ApplicationRow, RoadmapRow, DiscoveredJobsRow, profileFromRow, profileToRow, applicationFromRow, applicationToRow } from "./mappers.ts";
+
+/**
+ * Reads go straight to Supabase. Every write goes through the durable sync
+ * queue so it survives being offline, and loses to a newer server row.
+ */
+export const createSupabaseRepository = (): Repository => ({
+  getProfile: async (userId) => {
+    const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+    if (error) throw error;
+    return data ? profileFromRow(data as ProfileRow) : null;
+  },
+
+  createProfile: async (userId, profile) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({ ...profileToRow(userId, profile, new Date().toISOString()), interview_history: [] })
+      .select()
+      .single();
+    if (error) throw error;
+    return profileFromRow(data as ProfileRow);
+  },
+
+  saveProfile: async (userId, profile, updatedAt) => {
+    await enqueueMutation({
+      userId,
+      table: 'profiles',
+      op: 'upsert',
+      match: { id: userId },
+      updatedAt,
+      payload: profileToRow(userId, profile, updatedAt)
+    });
+  },
+
+  listApplications: async (userId) => {
+    const { data, error } = await supabase.from('applications').select('*').eq('user_id', userId).order('timestamp', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(row => applicationFromRow(row as ApplicationRow));
+  },
+
+  saveApplication: async (userId, app) => {
+    const row = applicationToRow(userId, app);
+    return enqueueMutation({ userId, table: 'applications', op: 'upsert', match: { id: app.id }, updatedAt: row.updated_at ?? undefined, payload: row });
+  },
+
+  listInterviewSessions: async (userId) => {
+    const { data, error } = await supabase.from('profiles').select('interview_history').eq('id', userId).maybeSingle();
+    if (error) throw error;
+    return data?.interview_history || [];
+  },
+
+  saveInterviewSessions: async (userId, sessions, updatedAt) => {
+    await enqueueMutation({
+      userId,
+      table: 'profiles',
+      op: 'update',
+      match: { id: userId },
+      updatedAt,
+      payload: { interview_history: sessions, updated_at: updatedAt }
+    });
+  },
+
+  getRoadmap: async (userId) => {
+    const { data, error } = await supabase.from('roadmaps').select('*').eq('user_id', userId).maybeSingle();
+    if (error) throw error;
+    return data ? (data as RoadmapRow).roadmap : null;
+  },
+
+  saveRoadmap: async (userId, roadmap) => {
+    const updatedAt = new Date().toISOString();
+    const row: RoadmapRow = { user_id: userId, roadmap, updated_at: updatedAt };
+    await enqueueMutation({ userId, table: 'roadmaps', op: 'upsert', match: { user_id: userId }, updatedAt, payload: row });
+  },
+
+  getDiscoveredJobs: async (userId) => {
+    const { data, error } = await supabase.from('discovered_jobs').select('*').eq('user_id', userId).maybeSingle();
+    if (error) throw error;
+    return data ? { jobs: (data as DiscoveredJobsRow).jobs || [], updatedAt: (data as DiscoveredJobsRow).updated_at } : null;
+  },
+
+  saveDiscoveredJobs: async (userId, jobs, updatedAt) => {
+    const row: DiscoveredJobsRow = { user_id: userId, jobs, updated_at: updatedAt };
+    await enqueueMutation({ userId, table: 'discovered_jobs', op: 'upsert', match: { user_id: userId }, updatedAt, payload: row });
+  }
+});
@@ -0,0 +1,87 @@
+import { Job, ResumeJson, ResumeDiff, BulletChange, EntryChange, Experience, Project, MutationReport, LlmCallOptions } from "../types.ts";
+import { mutateResume } from "./gemini.ts";
+import { scoreAtsCoverage } from "./ats.ts";
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Field-level diff between a source track and its tailored copy. Experience
+ * entries are paired by company + role and projects by name; entries only one
+ * side has are reported whole. Within a pair, bullets kept verbatim are
+ * ignored and the remaining ones are paired in order as rewrites.
+ */
+export const diffResume = (source: ResumeJson, mutated: ResumeJson): ResumeDiff => {
+  const sourceSkills = source.skills || [];
+  const mutatedSkills = mutated.skills || [];
+  const bullets: BulletChange[] = [];
+  const entries: EntryChange[] = [];
+
+  const sourceExperience = source.experience || [];
+  const mutatedExperience = mutated.experience || [];
+  const sameRole = (a: Experience, b: Experience) =>
+    sameText(a.company, b.company) && sameText(a.role, b.role);
+  const experienceEntry = (kind: EntryChange['kind'], exp: Experience): EntryChange =>
+    ({ section: 'experience', kind, title: `${exp.role} @ ${exp.company}`, lines: exp.achievements || [] });
+
+  sourceExperience.forEach(exp => {
+    const counterpart = mutatedExperience.find(m => sameRole(m, exp));
+    if (!counterpart) {
+      entries.push(experienceEntry('removed', exp));
+      return;
+    }
+    const before = (exp.achievements || []).filter(a => !(counterpart.achievements || []).some(b => sameText(a, b)));
+    const after = (counterpart.achievements || []).filter(b => !(exp.achievements || []).some(a => sameText(a, b)));
+    const paired = Math.min(before.length, after.length);
+
+    for (let i = 0; i < paired; i++) {
+      bullets.push({ company: exp.company, role: exp.role, kind: 'rewritten', before: before[i], after: after[i] });
+    }
+    before.slice(paired).forEach(b => bullets.push({ company: exp.company, role: exp.role, kind: 'removed', before: b }));
+    after.slice(paired).forEach(a => bullets.push({ company: exp.company, role: exp.role, kind: 'added', after: a }));
+  });
+  mutatedExperience
+    .filter(exp => !sourceExperience.some(s => sameRole(s, exp)))
+    .forEach(exp => entries.push(experienceEntry('added', exp)));
+
+  const sourceProjects = source.projects || [];
+  const mutatedProjects = mutated.projects || [];
+  const projectEntry = (kind: EntryChange['kind'], project: Project): EntryChange =>
+    ({ section: 'projects', kind, title: project.name, lines: [project.description].filter(Boolean) });
+  sourceProjects
+    .filter(p => !mutatedProjects.some(m => sameText(m.name, p.name)))
+    .forEach(p => entries.push(projectEntry('removed', p)));
+  mutatedProjects
+    .filter(m => !sourceProjects.some(p => sameText(p.name, m.name)))
+    .forEach(m => entries.push(projectEntry('added', m)));
+
+  const summaryChanged = !sameText(source.summary || '', mutated.summary || '');
+  return {
+    summaryBefore: summaryChanged ? source.summary : undefined,
+    summaryAfter: summaryChanged ? mutated.summary : undefined,
+    skillsAdded: mutatedSkills.filter(s => !sourceSkills.some(o => sameText(o, s))),
+    skillsRemoved: sourceSkills.filter(s => !mutatedSkills.some(m => sameText(m, s))),
+    bullets,
+    entries
+  };
+};
+
+/**
+ * Tailors a resume for a job and reports what changed. Keyword injection and
+ * the ATS estimate are computed locally so they don't depend on the model
+ * describing its own edits honestly.
+ */
+export const tailorResumeForJob = async (source: ResumeJson, job: Job, options: LlmCallOptions = {}): Promise<{ resume: ResumeJson; report: MutationReport }> => {
+  const resume = await mutateResume(source, job, options);
+  const before = scoreAtsCoverage(source, job);
+  const after = scoreAtsCoverage(resume, job);
+
+  return {
+    resume,
+    report: {
+      atsScoreBefore: before.score,
+      atsScoreEstimate: after.score,
+      keywordsInjected: after.matched.filter(k => !before.matched.includes(k)),
+      diff: diffResume(source, resume)
+    }
+  };
+};
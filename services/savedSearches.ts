@@ -0,0 +1,108 @@
+import { SavedSearch, UserProfile, DiscoveredJob } from "../types.ts";
+import { supabase } from "../lib/supabase.ts";
+import { searchJobsPro } from "./jobSources/index.ts";
+import { dedupeJobs } from "./jobIdentity.ts";
+
+export const DEFAULT_SEARCH_INTERVAL_MINUTES = 180;
+
+// Caps the seen-history and inbox so long-lived searches don't grow the row forever
+const MAX_SEEN_FINGERPRINTS = 1000;
+const MAX_INBOX_JOBS = 200;
+
+const fromRow = (row: any): SavedSearch => ({
+  id: row.id,
+  query: row.query,
+  intervalMinutes: row.interval_minutes || DEFAULT_SEARCH_INTERVAL_MINUTES,
+  createdAt: row.created_at,
+  lastRunAt: row.last_run_at || undefined,
+  seenFingerprints: row.seen_fingerprints || [],
+  newJobs: row.new_jobs || []
+});
+
+const toRow = (userId: string, search: SavedSearch) => ({
+  id: search.id,
+  user_id: userId,
+  query: search.query,
+  interval_minutes: search.intervalMinutes,
+  created_at: search.createdAt,
+  last_run_at: search.lastRunAt || null,
+  seen_fingerprints: search.seenFingerprints,
+  new_jobs: search.newJobs
+});
+
+export const fetchSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const { data, error } = await supabase.from('saved_searches').select('*').eq('user_id', userId).order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const persistSavedSearch = async (userId: string, search: SavedSearch) => {
+  const { error } = await supabase.from('saved_searches').upsert(toRow(userId, search));
+  if (error) throw error;
+};
+
+/**
+ * Writes back a run's results. An update rather than an upsert, so a search
+ * deleted while it was running stays deleted.
+ */
+export const persistSearchRun = async (search: SavedSearch) => {
+  const { error } = await supabase.from('saved_searches')
+    .update({ last_run_at: search.lastRunAt || null, seen_fingerprints: search.seenFingerprints, new_jobs: search.newJobs })
+    .eq('id', search.id);
+  if (error) throw error;
+};
+
+export const deleteSavedSearch = async (id: string) => {
+  const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const createSavedSearch = (query: string, intervalMinutes = DEFAULT_SEARCH_INTERVAL_MINUTES): SavedSearch => ({
+  id: crypto.randomUUID(),
+  query: query.trim(),
+  intervalMinutes,
+  createdAt: new Date().toISOString(),
+  seenFingerprints: [],
+  newJobs: []
+});
+
+export const isSearchDue = (search: SavedSearch, now = Date.now()) =>
+  !search.lastRunAt || now - new Date(search.lastRunAt).getTime() >= search.intervalMinutes * 60 * 1000;
+
+export interface SavedSearchRun {
+  found: DiscoveredJob[];
+  ranAt: string;
+}
+
+/**
+ * Re-runs a saved search and returns the jobs whose fingerprints it hadn't
+ * seen yet. Fold them into the search with applySearchRun.
+ */
+export const runSavedSearch = async (
+  search: SavedSearch,
+  preferences?: UserProfile['preferences'],
+  signal?: AbortSignal
+): Promise<SavedSearchRun> => {
+  const jobs = dedupeJobs(await searchJobsPro(search.query, preferences, { signal }));
+  const seen = new Set(search.seenFingerprints);
+  return {
+    found: jobs.filter(job => job.fingerprint && !seen.has(job.fingerprint)),
+    ranAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Moves a run's new jobs into the search's inbox. Pass the search as it is
+ * now, not as it was when the run started, so changes made meanwhile (such
+ * as Mark Seen) are kept.
+ */
+export const applySearchRun = (search: SavedSearch, { found, ranAt }: SavedSearchRun): SavedSearch => {
+  const seen = new Set(search.seenFingerprints);
+  const fresh = found.filter(job => !seen.has(job.fingerprint!));
+  return {
+    ...search,
+    lastRunAt: ranAt,
+    seenFingerprints: [...fresh.map(j => j.fingerprint!), ...search.seenFingerprints].slice(0, MAX_SEEN_FINGERPRINTS),
+    newJobs: [...fresh, ...search.newJobs].slice(0, MAX_INBOX_JOBS)
+  };
+};
@@ -0,0 +1,150 @@
+import { QueuedMutation, SyncQueueStatus, WriteOutcome } from "../types.ts";
+import { supabase } from "../lib/supabase.ts";
+import { putMutation, removeMutation, listMutations, isNewer } from "./localStore.ts";
+
+// A mutation the server keeps rejecting is dropped after this many tries so it can't block the queue
+const MAX_REPLAY_ATTEMPTS = 5;
+
+let sequence = 0;
+let flushing: Promise<void> | null = null;
+let status: SyncQueueStatus = { pending: 0, online: typeof navigator === 'undefined' || navigator.onLine };
+const listeners = new Set<(status: SyncQueueStatus) => void>();
+// Outcomes of mutations whose enqueueMutation call is still waiting on them
+const waiting = new Map<string, WriteOutcome>();
+
+const settle = (id: string, outcome: WriteOutcome) => {
+  if (waiting.has(id)) waiting.set(id, outcome);
+};
+
+const publish = (updates: Partial<SyncQueueStatus>) => {
+  status = { ...status, ...updates };
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeSyncQueue = (listener: (status: SyncQueueStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+const isNetworkError = (error: any) =>
+  !navigator.onLine || /failed to fetch|network|load failed|timeout/i.test(error?.message || '');
+
+/**
+ * The server copy wins when its row changed after this mutation was made.
+ */
+const isStale = async (mutation: QueuedMutation) => {
+  if (mutation.op === 'delete' || !mutation.payload?.updated_at) return false;
+  const { data, error } = await supabase.from(mutation.table).select('updated_at').match(mutation.match).maybeSingle();
+  if (error) throw error;
+  return isNewer(data?.updated_at, mutation.updatedAt);
+};
+
+const apply = async (mutation: QueuedMutation) => {
+  const table = supabase.from(mutation.table);
+  const { error } = mutation.op === 'upsert'
+    ? await table.upsert(mutation.payload!)
+    : mutation.op === 'update'
+      ? await table.update(mutation.payload!).match(mutation.match)
+      : await table.delete().match(mutation.match);
+  if (error) throw error;
+};
+
+// Read from the stored session, so this works offline
+const currentUserId = async () => (await supabase.auth.getSession()).data.session?.user.id;
+
+/**
+ * Replays the signed-in user's mutations only. Another account's writes stay
+ * queued until that account signs in here again; RLS would reject them now.
+ */
+const replay = async () => {
+  const userId = await currentUserId();
+  const mine = async () => userId ? (await listMutations()).filter(m => m.userId === userId) : [];
+  const mutations = await mine();
+  publish({ pending: mutations.length });
+  for (const mutation of mutations) {
+    if (!navigator.onLine) break;
+    try {
+      if (await isStale(mutation)) {
+        console.warn(`Dropped queued ${mutation.op} on ${mutation.table}: server copy is newer.`);
+        settle(mutation.id, { status: 'stale' });
+      } else {
+        await apply(mutation);
+        settle(mutation.id, { status: 'applied' });
+      }
+      await removeMutation(mutation.id);
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        publish({ lastError: error.message });
+        break;
+      }
+      const attempts = mutation.attempts + 1;
+      if (attempts >= MAX_REPLAY_ATTEMPTS) {
+        await removeMutation(mutation.id);
+        settle(mutation.id, { status: 'rejected', error: error.message });
+        publish({ lastError: `Gave up syncing ${mutation.table}: ${error.message}` });
+      } else {
+        await putMutation({ ...mutation, attempts, lastError: error.message });
+        settle(mutation.id, { status: 'queued', error: error.message });
+        publish({ lastError: error.message });
+        break;
+      }
+    }
+    publish({ pending: Math.max(0, status.pending - 1) });
+  }
+  const remaining = await mine();
+  publish({ pending: remaining.length, ...(remaining.length === 0 ? { lastError: undefined } : {}) });
+};
+
+/**
+ * Replays queued mutations in order. Concurrent calls share one run.
+ */
+export const flushSyncQueue = (): Promise<void> => {
+  if (!flushing) {
+    flushing = replay()
+      .catch(err => publish({ lastError: err.message }))
+      .finally(() => { flushing = null; });
+  }
+  return flushing;
+};
+
+const sameTarget = (a: QueuedMutation, b: QueuedMutation) =>
+  a.userId === b.userId && a.table === b.table && JSON.stringify(a.match) === JSON.stringify(b.match);
+
+/**
+ * Records a write durably and tries to send it straight away. The caller's
+ * change is never lost: if Supabase can't be reached it stays queued. A
+ * whole-row upsert replaces any upsert of the same row still waiting.
+ */
+export const enqueueMutation = async (mutation: Omit<QueuedMutation, 'id' | 'sequence' | 'attempts' | 'updatedAt'> & { updatedAt?: string }): Promise<WriteOutcome> => {
+  const queued: QueuedMutation = {
+    ...mutation,
+    id: crypto.randomUUID(),
+    sequence: Date.now() * 1000 + (sequence++ % 1000),
+    updatedAt: mutation.updatedAt || new Date().toISOString(),
+    attempts: 0
+  };
+  const superseded = queued.op === 'upsert'
+    ? (await listMutations()).filter(m => m.op === 'upsert' && sameTarget(m, queued))
+    : [];
+  await Promise.all(superseded.map(m => removeMutation(m.id)));
+  await putMutation(queued);
+  waiting.set(queued.id, { status: 'queued' });
+  publish({ pending: Math.max(0, status.pending - superseded.length) + 1 });
+  try {
+    // Flush after any in-flight replay so this mutation is included
+    if (flushing) await flushing;
+    await flushSyncQueue();
+    return waiting.get(queued.id)!;
+  } finally {
+    waiting.delete(queued.id);
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    publish({ online: true });
+    flushSyncQueue();
+  });
+  window.addEventListener('offline', () => publish({ online: false }));
+}
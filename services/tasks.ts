@@ -0,0 +1,155 @@
+import { TaskState } from "../types.ts";
+
+/**
+ * What a running task gets to report with. `stage` moves to the next named
+ * stage; `advance` reports progress within the current one (0 to 1).
+ */
+export interface TaskHandle {
+  signal: AbortSignal;
+  stage: (name: string, message?: string) => void;
+  advance: (fraction: number, message?: string) => void;
+}
+
+export interface TaskDefinition<T> {
+  id: string;
+  label: string;
+  // Equal shares of the progress bar, in the order the task reaches them
+  stages: string[];
+  run: (task: TaskHandle) => Promise<T>;
+  // Message shown once the task completes
+  done?: (result: T) => string;
+}
+
+// Completed tasks leave the drawer on their own after this long
+const COMPLETED_TTL_MS = 60_000;
+
+const tasks = new Map<string, TaskState>();
+const definitions = new Map<string, TaskDefinition<any>>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(tasks: TaskState[]) => void>();
+
+const abortError = () => new DOMException('The task was cancelled.', 'AbortError');
+
+export const getTasks = (): TaskState[] =>
+  Array.from(tasks.values()).sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''));
+
+/**
+ * The task's current state, or an idle placeholder if it has never run.
+ */
+export const getTask = (id: string, all: TaskState[] = getTasks()): TaskState =>
+  all.find(task => task.id === id) || { id, label: definitions.get(id)?.label || id, status: 'idle', progress: 0, message: '' };
+
+const notify = () => {
+  const snapshot = getTasks();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeTasks = (listener: (tasks: TaskState[]) => void) => {
+  listeners.add(listener);
+  listener(getTasks());
+  return () => { listeners.delete(listener); };
+};
+
+const update = (id: string, changes: Partial<TaskState>) => {
+  const current = tasks.get(id);
+  if (!current) return;
+  tasks.set(id, { ...current, ...changes });
+  notify();
+};
+
+/**
+ * Runs an operation as a tracked task. Starting a task whose id is already
+ * running cancels the earlier run. Resolves with the result; rejects with
+ * the task's error, or an AbortError once cancelled, so callers can drop
+ * stale results. Failed and cancelled tasks can be re-run with retryTask.
+ */
+export const runTask = async <T>(definition: TaskDefinition<T>): Promise<T> => {
+  const { id, label, stages } = definition;
+  if (tasks.get(id)?.status === 'running') controllers.get(id)?.abort();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  definitions.set(id, definition);
+
+  let stageIndex = -1;
+  let fraction = 0;
+  const progressNow = () => stages.length
+    ? Math.min(99, Math.round(((Math.max(stageIndex, 0) + fraction) / stages.length) * 100))
+    : 0;
+  const isCurrent = () => controllers.get(id) === controller && !controller.signal.aborted;
+
+  tasks.set(id, { id, label, status: 'running', progress: 0, message: 'Starting...', startedAt: new Date().toISOString() });
+  notify();
+  // Shown as cancelled right away, even if the work only notices the signal later
+  controller.signal.addEventListener('abort', () => {
+    if (controllers.get(id) === controller) {
+      update(id, { status: 'cancelled', message: `${label} cancelled`, finishedAt: new Date().toISOString() });
+    }
+  }, { once: true });
+
+  const handle: TaskHandle = {
+    signal: controller.signal,
+    stage: (name, message) => {
+      if (!isCurrent()) return;
+      const index = stages.indexOf(name);
+      // Stages only move forward; an unknown name keeps the current share
+      if (index > stageIndex) {
+        stageIndex = index;
+        fraction = 0;
+      }
+      update(id, { stage: name, progress: progressNow(), message: message || name });
+    },
+    advance: (value, message) => {
+      if (!isCurrent()) return;
+      fraction = Math.max(fraction, Math.min(1, value));
+      update(id, { progress: progressNow(), ...(message && { message }) });
+    }
+  };
+
+  try {
+    const result = await definition.run(handle);
+    if (controller.signal.aborted) throw abortError();
+    update(id, {
+      status: 'completed',
+      progress: 100,
+      message: definition.done?.(result) || `${label} complete`,
+      finishedAt: new Date().toISOString()
+    });
+    setTimeout(() => {
+      if (tasks.get(id)?.status === 'completed' && controllers.get(id) === controller) dismissTask(id);
+    }, COMPLETED_TTL_MS);
+    return result;
+  } catch (e: any) {
+    if (controller.signal.aborted) throw abortError();
+    // A newer run of the same task owns the entry now
+    if (controllers.get(id) === controller) {
+      update(id, { status: 'error', message: `${label} failed`, error: e?.message || 'Unknown error', finishedAt: new Date().toISOString() });
+    }
+    throw e;
+  }
+};
+
+export const cancelTask = (id: string) => {
+  if (tasks.get(id)?.status !== 'running') return;
+  controllers.get(id)?.abort();
+};
+
+/**
+ * Re-runs a failed or cancelled task with its original definition. The
+ * outcome is reported through the task itself.
+ */
+export const retryTask = (id: string) => {
+  const definition = definitions.get(id);
+  if (!definition) return;
+  runTask(definition).catch(() => {});
+};
+
+/**
+ * Clears a finished task from the list. Running tasks stay.
+ */
+export const dismissTask = (id: string) => {
+  if (tasks.get(id)?.status === 'running') return;
+  tasks.delete(id);
+  notify();
+};
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
@@ -0,0 +1,18 @@
+-- Saved searches, re-run on a schedule while the app is open. Only the owner
+-- may read or change their searches.
+create table if not exists public.saved_searches (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  query text not null,
+  interval_minutes integer not null default 180,
+  created_at timestamptz not null default now(),
+  last_run_at timestamptz,
+  seen_fingerprints jsonb not null default '[]'::jsonb,
+  new_jobs jsonb not null default '[]'::jsonb
+);
+create index if not exists saved_searches_user_id_idx on public.saved_searches (user_id);
+
+alter table public.saved_searches enable row level security;
+drop policy if exists "Owners manage their rows" on public.saved_searches;
+create policy "Owners manage their rows" on public.saved_searches for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
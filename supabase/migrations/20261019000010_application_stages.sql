@@ -0,0 +1,4 @@
+-- Where each application sits on the stage board, and when it entered each stage
+alter table public.applications
+  add column if not exists stage text,
+  add column if not exists stage_history jsonb;
@@ -0,0 +1,3 @@
+-- Follow-up actions scheduled for each application
+alter table public.applications
+  add column if not exists next_actions jsonb not null default '[]'::jsonb;
@@ -0,0 +1,42 @@
+-- Recruiting contacts and the outreach messages attached to them. Only the
+-- owner may read or change either.
+create table if not exists public.contacts (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  company text,
+  role text,
+  channel text,
+  handle text,
+  notes text,
+  history jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+create index if not exists contacts_user_id_idx on public.contacts (user_id);
+
+create table if not exists public.outreach_messages (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  contact_id uuid not null references public.contacts (id) on delete cascade,
+  job_id text,
+  job_title text,
+  company text,
+  platform text not null,
+  message text not null,
+  status text not null default 'draft',
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  replied_at timestamptz
+);
+create index if not exists outreach_messages_user_id_idx on public.outreach_messages (user_id);
+
+alter table public.contacts enable row level security;
+drop policy if exists "Owners manage their rows" on public.contacts;
+create policy "Owners manage their rows" on public.contacts for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter table public.outreach_messages enable row level security;
+drop policy if exists "Owners manage their rows" on public.outreach_messages;
+create policy "Owners manage their rows" on public.outreach_messages for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
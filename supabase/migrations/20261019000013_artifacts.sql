@@ -0,0 +1,21 @@
+-- Versioned generated documents (cover letters, tailored resumes, outreach).
+-- Only the owner may read or change them.
+create table if not exists public.artifacts (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  key text,
+  job_id text not null,
+  job_title text,
+  company text,
+  versions jsonb not null default '[]'::jsonb,
+  current_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+create index if not exists artifacts_user_id_idx on public.artifacts (user_id);
+
+alter table public.artifacts enable row level security;
+drop policy if exists "Owners manage their rows" on public.artifacts;
+create policy "Owners manage their rows" on public.artifacts for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
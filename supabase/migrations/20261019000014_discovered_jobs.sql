@@ -0,0 +1,12 @@
+-- Discovered jobs, one row per user, so they follow the user across devices.
+-- Only the owner may read or change their row.
+create table if not exists public.discovered_jobs (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  jobs jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.discovered_jobs enable row level security;
+drop policy if exists "Owners manage their rows" on public.discovered_jobs;
+create policy "Owners manage their rows" on public.discovered_jobs for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,24 @@
+-- Columns the repository writes on applications and profiles, and the roadmaps
+-- table. Only the owner may read or change their roadmap.
+alter table public.applications
+  add column if not exists platform text,
+  add column if not exists location text,
+  add column if not exists cover_letter text,
+  add column if not exists mutated_resume jsonb,
+  add column if not exists mutation_report jsonb,
+  add column if not exists verification jsonb,
+  add column if not exists updated_at timestamptz;
+
+alter table public.profiles
+  add column if not exists updated_at timestamptz;
+
+create table if not exists public.roadmaps (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  roadmap jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.roadmaps enable row level security;
+drop policy if exists "Owners manage their rows" on public.roadmaps;
+create policy "Owners manage their rows" on public.roadmaps for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
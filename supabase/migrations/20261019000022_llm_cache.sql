@@ -0,0 +1,54 @@
+-- Model answers about public postings and markets, shared between users who opt in.
+-- Anyone signed in may read rows and add new ones; only the writer may change or
+-- delete a row until it expires, after which anyone may replace or purge it.
+-- Readers also check every value against the feature's schema before using it.
+create table if not exists public.llm_cache (
+  key text primary key,
+  feature text not null,
+  model text not null,
+  value jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade
+);
+create index if not exists llm_cache_expires_at_idx on public.llm_cache (expires_at);
+
+-- The writer is always the caller and the row is always dated now, whatever the
+-- client sends. Expiry is capped at the feature's TTL (CACHE_TTL_MS in
+-- services/llm/cache.ts) so nobody can plant an answer that never goes stale.
+create or replace function public.llm_cache_set_writer() returns trigger
+language plpgsql as $$
+begin
+  new.created_by := auth.uid();
+  new.created_at := now();
+  new.expires_at := least(new.expires_at, now() + case new.feature
+    when 'marketInsights' then interval '1 day'
+    when 'jobExtraction' then interval '7 days'
+    else interval '0'
+  end);
+  return new;
+end $$;
+
+drop trigger if exists llm_cache_set_writer on public.llm_cache;
+create trigger llm_cache_set_writer before insert or update on public.llm_cache
+  for each row execute function public.llm_cache_set_writer();
+
+alter table public.llm_cache enable row level security;
+
+-- Expired rows stay visible so whoever finds one can purge it
+drop policy if exists "Read shared answers" on public.llm_cache;
+create policy "Read shared answers" on public.llm_cache for select to authenticated
+  using (true);
+
+drop policy if exists "Add shared answers" on public.llm_cache;
+create policy "Add shared answers" on public.llm_cache for insert to authenticated
+  with check (created_by = auth.uid() and feature in ('marketInsights', 'jobExtraction'));
+
+drop policy if exists "Replace own or expired answers" on public.llm_cache;
+create policy "Replace own or expired answers" on public.llm_cache for update to authenticated
+  using (created_by = auth.uid() or expires_at <= now())
+  with check (created_by = auth.uid() and feature in ('marketInsights', 'jobExtraction'));
+
+drop policy if exists "Purge own or expired answers" on public.llm_cache;
+create policy "Purge own or expired answers" on public.llm_cache for delete to authenticated
+  using (created_by = auth.uid() or expires_at <= now());
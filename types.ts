@@ -5,6 +5,82 @@ export interface OutreachDraft {
   message: string;
 }
 
+export type ContactChannel = 'LinkedIn' | 'Email' | 'Phone' | 'Other';
+
+export type ContactEventKind = 'created' | 'updated' | 'drafted' | 'sent' | 'replied';
+
+export interface ContactEvent {
+  at: string;
+  kind: ContactEventKind;
+  text: string;
+  messageId?: string;
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  company: string;
+  role: string;
+  channel: ContactChannel;
+  handle?: string;
+  notes?: string;
+  history: ContactEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OutreachStatus = 'draft' | 'sent' | 'replied';
+
+/**
+ * An outreach draft once it has been attached to a contact (and usually the
+ * job it was written for), tracked through to a reply.
+ */
+export interface OutreachMessage {
+  id: string;
+  contactId: string;
+  jobId?: string;
+  jobTitle?: string;
+  company?: string;
+  platform: OutreachDraft['platform'];
+  message: string;
+  status: OutreachStatus;
+  createdAt: string;
+  sentAt?: string;
+  repliedAt?: string;
+}
+
+export type ArtifactKind = 'cover_letter' | 'tailored_resume' | 'outreach_message';
+
+export type ArtifactOrigin = 'generated' | 'regenerated' | 'edited' | 'restored';
+
+export interface ArtifactVersion {
+  version: number;
+  createdAt: string;
+  origin: ArtifactOrigin;
+  content: string | ResumeJson;
+  // Inputs the generator was called with, so a version can be explained or reproduced
+  inputs?: Record<string, string | number | boolean | string[] | undefined>;
+  restoredFrom?: number;
+}
+
+/**
+ * A generated document tied to a job, with every regeneration, edit and
+ * restore kept as an immutable version. `key` tells apart several artifacts
+ * of the same kind for one job (e.g. the LinkedIn and Email outreach drafts).
+ */
+export interface Artifact {
+  id: string;
+  kind: ArtifactKind;
+  key?: string;
+  jobId: string;
+  jobTitle: string;
+  company: string;
+  versions: ArtifactVersion[];
+  currentVersion: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface TranscriptAnnotation {
   text: string;
   speaker: 'User' | 'AI';
@@ -74,7 +150,8 @@ export interface MarketInsights {
   demandTrend: 'High' | 'Stable' | 'Decreasing';
   topSkills: string[];
   recentNews: { title: string; url: string }[];
-  citations: { web: { uri: string; title: string } }[];
+  citations: LlmCitation[];
+  cachedAt?: string; // set when served from the response cache
 }
 
 export interface RoadmapStep {
@@ -121,8 +198,18 @@ export interface Job {
   salary?: string;
   thumbnail?: string;
   outreach?: OutreachDraft[];
+  cachedAt?: string; // set when the extraction was served from the response cache
+  fieldSources?: Partial<Record<ExtractedJobField, JobFieldSource>>;
 }
 
+/**
+ * How an extracted field was obtained: structured data on the page, a known
+ * ATS layout, the URL itself, or the model reading the page text.
+ */
+export type JobFieldSource = 'json-ld' | 'greenhouse' | 'lever' | 'workday' | 'ashby' | 'url' | 'llm';
+
+export type ExtractedJobField = 'title' | 'company' | 'location' | 'skills' | 'description' | 'applyUrl' | 'platform' | 'salary' | 'thumbnail';
+
 export interface Gig {
   id: string;
   title: string;
@@ -152,6 +239,36 @@ export enum ApplicationStatus {
   INTERVIEWING = 'INTERVIEWING'
 }
 
+/**
+ * Where an application sits in the user's own hiring funnel. Independent of
+ * ApplicationStatus, which only tracks the agent's dispatch pipeline.
+ */
+export enum ApplicationStage {
+  SAVED = 'SAVED',
+  APPLIED = 'APPLIED',
+  SCREENING = 'SCREENING',
+  INTERVIEWING = 'INTERVIEWING',
+  OFFER = 'OFFER',
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN'
+}
+
+export type NextActionKind = 'follow_up_email' | 'thank_you_note' | 'check_status';
+
+/**
+ * A follow-up the user owes on an application. `suggested` marks defaults
+ * proposed from the application's stage rather than added by hand.
+ */
+export interface NextAction {
+  id: string;
+  kind: NextActionKind;
+  dueAt: string;
+  createdAt: string;
+  completedAt?: string;
+  notifiedAt?: string;
+  suggested?: boolean;
+}
+
 export interface CommandResult {
   action: 'apply' | 'search_jobs' | 'update_profile' | 'improve_resume' | 'status' | 'strategy' | 'find_gigs' | 'blocked' | 'switch_tab' | 'start_interview';
   goal?: string;
@@ -175,12 +292,55 @@ export interface DiscoveredJob {
   description?: string;
   postedAt?: string;
   matchScore?: number;
+  fingerprint?: string;
+  sources?: JobSourceLink[];
+  alreadyApplied?: boolean;
+}
+
+export interface JobSourceLink {
+  source: string;
+  url: string;
+}
+
+export interface JobSearchQuery {
+  query: string;
+  locations?: string[];
+  remoteOnly?: boolean;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A source of job listings. Every adapter normalizes its results into
+ * DiscoveredJob so discovery, scoring and the UI stay source-agnostic.
+ */
+export interface JobSourceProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  search: (query: JobSearchQuery) => Promise<DiscoveredJob[]>;
+}
+
+export type MatchFactorKey = 'skills' | 'location' | 'salary' | 'remote' | 'llm';
+
+export interface MatchFactor {
+  key: MatchFactorKey;
+  score: number;
+  weight: number;
+  detail: string;
+  known: boolean;
 }
 
 export interface MatchResult {
   score: number;
   reasoning: string;
   missingSkills: string[];
+  trackId?: string;
+  trackName?: string;
+  localScore?: number;
+  llmScore?: number;
+  breakdown?: MatchFactor[];
+  cachedAt?: string; // set when the model's judgement came from the response cache
 }
 
 export type ResumeTemplate = 'Modern' | 'Classic' | 'Tech' | 'Executive';
@@ -193,6 +353,48 @@ export enum CoverLetterStyle {
   CHILL_PROFESSIONAL = 'Chill Professional'
 }
 
+export interface BulletChange {
+  company: string;
+  role: string;
+  kind: 'rewritten' | 'added' | 'removed';
+  before?: string;
+  after?: string;
+}
+
+// A whole experience or project entry that only one side of the diff has
+export interface EntryChange {
+  section: 'experience' | 'projects';
+  kind: 'added' | 'removed';
+  title: string;
+  lines: string[];
+}
+
+export interface ResumeDiff {
+  summaryBefore?: string;
+  summaryAfter?: string;
+  skillsAdded: string[];
+  skillsRemoved: string[];
+  bullets: BulletChange[];
+  // Absent on diffs recorded before whole entries were compared
+  entries?: EntryChange[];
+}
+
+export type AtsSection = 'summary' | 'skills' | 'experience' | 'projects' | 'certifications' | 'education';
+
+export interface AtsCoverage {
+  score: number;
+  matched: string[];
+  missing: string[];
+  sectionHits?: Partial<Record<AtsSection, string[]>>;
+}
+
+export interface MutationReport {
+  atsScoreEstimate?: number;
+  atsScoreBefore?: number;
+  keywordsInjected?: string[];
+  diff?: ResumeDiff;
+}
+
 export interface VerificationProof {
   virtualScreenshot?: string;
   networkLogs?: string[];
@@ -210,20 +412,315 @@ export interface ApplicationLog {
   platform?: string;
   location?: string;
   coverLetter?: string;
-  mutatedResume?: any;
-  mutationReport?: {
-    atsScoreEstimate?: number;
-    keywordsInjected?: string[];
-  };
+  mutatedResume?: ResumeJson;
+  mutationReport?: MutationReport;
   verification?: VerificationProof;
+  pipeline?: PipelineCheckpoint;
+  stage?: ApplicationStage;
+  stageHistory?: Partial<Record<ApplicationStage, string>>;
+  nextActions?: NextAction[];
+  updatedAt?: string;
+  sync?: ApplicationSync;
+}
+
+/**
+ * Local-only record of whether the latest change to an application reached
+ * the server.
+ */
+export interface ApplicationSync {
+  status: 'saving' | 'queued' | 'saved' | 'failed';
+  error?: string;
+  at: string;
 }
 
+/**
+ * Resumable state of an application pipeline run, stored alongside the
+ * ApplicationLog it produces so a run can pick up after a reload or failure.
+ */
+export interface PipelineCheckpoint {
+  job: Job;
+  trackId: string;
+  coverLetterStyle: CoverLetterStyle;
+  lastCompletedStage: ApplicationStatus | null;
+  match?: MatchResult;
+  error?: string;
+  events: string[];
+  updatedAt: string;
+}
+
+export type TaskStatus = 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * A long-running operation as the activity drawer shows it. `progress` is
+ * 0-100, derived from the task's stages.
+ */
 export interface TaskState {
   id: string;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  label: string;
+  status: TaskStatus;
   progress: number;
   message: string;
+  stage?: string;
   error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  query: string;
+  intervalMinutes: number;
+  createdAt: string;
+  lastRunAt?: string;
+  seenFingerprints: string[];
+  newJobs: DiscoveredJob[];
+}
+
+export interface StoredDiscoveredJobs {
+  jobs: DiscoveredJob[];
+  updatedAt: string;
+}
+
+export interface StoredProfile {
+  profile: UserProfile;
+  interviewHistory: InterviewSession[];
+  updatedAt?: string;
+}
+
+/**
+ * Persistence boundary for the app's core records. Implementations own all
+ * conversion between storage rows and these types.
+ */
+export interface Repository {
+  getProfile(userId: string): Promise<StoredProfile | null>;
+  createProfile(userId: string, profile: UserProfile): Promise<StoredProfile>;
+  saveProfile(userId: string, profile: UserProfile, updatedAt: string): Promise<void>;
+  listApplications(userId: string): Promise<ApplicationLog[]>;
+  saveApplication(userId: string, app: ApplicationLog): Promise<WriteOutcome>;
+  listInterviewSessions(userId: string): Promise<InterviewSession[]>;
+  saveInterviewSessions(userId: string, sessions: InterviewSession[], updatedAt: string): Promise<void>;
+  getRoadmap(userId: string): Promise<CareerRoadmap | null>;
+  saveRoadmap(userId: string, roadmap: CareerRoadmap): Promise<void>;
+  getDiscoveredJobs(userId: string): Promise<StoredDiscoveredJobs | null>;
+  saveDiscoveredJobs(userId: string, jobs: DiscoveredJob[], updatedAt: string): Promise<void>;
+}
+
+/**
+ * A Supabase write recorded locally first and replayed in order once the
+ * network is available. `updatedAt` is the client time of the change and is
+ * compared with the row's `updated_at` to decide which side wins.
+ */
+export interface QueuedMutation {
+  id: string;
+  sequence: number;
+  userId: string;
+  table: string;
+  op: 'upsert' | 'update' | 'delete';
+  match: Record<string, string>;
+  payload?: Record<string, any>;
+  updatedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncQueueStatus {
+  pending: number;
+  online: boolean;
+  lastError?: string;
+}
+
+/**
+ * What became of one queued write by the time its first replay finished:
+ * sent, still waiting for a connection (or a retry), dropped because the
+ * server copy is newer, or given up on after repeated rejections.
+ */
+export interface WriteOutcome {
+  status: 'applied' | 'queued' | 'stale' | 'rejected';
+  error?: string;
+}
+
+/**
+ * Every place the app calls a model, so each can be pointed at a different one.
+ */
+export type ModelFeature =
+  | 'outreach'
+  | 'interviewEvaluation'
+  | 'liveInterview'
+  | 'marketInsights'
+  | 'careerRoadmap'
+  | 'resumeAlignment'
+  | 'atsKeywords'
+  | 'resumeEnhancement'
+  | 'resumeMutation'
+  | 'resumeExpansion'
+  | 'gigSearch'
+  | 'commands'
+  | 'proposals'
+  | 'coverLetters'
+  | 'jobExtraction'
+  | 'jobSearch'
+  | 'matchScoring'
+  | 'resumeParsing';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'fixture';
+
+/**
+ * Overrides the user enters on the Identity tab. Stored only on this device,
+ * never synced, since they include API keys.
+ */
+export interface UserSettings {
+  geminiApiKey?: string;
+  serpApiKey?: string;
+  corsProxy?: string;
+  llmProvider?: LlmProviderId;
+  openAiBaseUrl?: string;
+  openAiApiKey?: string;
+  openAiModel?: string;
+  dailyRequestBudget?: number;
+  dailyTokenBudget?: number;
+  shareLlmCache?: boolean;
+  models?: Partial<Record<ModelFeature, string>>;
+}
+
+export interface AppConfig {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  geminiApiKey?: string;
+  serpApiKey?: string;
+  corsProxy: string;
+  llmProvider: LlmProviderId;
+  openAi: { baseUrl: string; apiKey?: string; model: string };
+  budget: { requests: number; tokens: number };
+  shareLlmCache: boolean;
+  models: Record<ModelFeature, string>;
+}
+
+export interface ConfigIssue {
+  key: keyof AppConfig;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * The subset of JSON Schema the model backends all understand.
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+type RequiredKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? never : K }[keyof T] & string;
+
+/**
+ * A JsonSchema checked against the TypeScript type it describes: property
+ * names and kinds must exist on T, and `required` may only list keys that
+ * T itself requires.
+ */
+export type SchemaFor<T> =
+  [T] extends [string] ? { type: 'string'; enum?: T[]; description?: string } :
+  [T] extends [number] ? { type: 'number' | 'integer'; description?: string } :
+  [T] extends [boolean] ? { type: 'boolean'; description?: string } :
+  [T] extends [(infer U)[]] ? { type: 'array'; items: SchemaFor<U>; description?: string } :
+  [T] extends [object] ? {
+    type: 'object';
+    properties?: { [K in keyof T]?: SchemaFor<NonNullable<T[K]>> };
+    required?: RequiredKeys<T>[];
+    description?: string;
+  } :
+  JsonSchema;
+
+/**
+ * What a structured reply looks like while it is still streaming: any field,
+ * at any depth, may be missing or cut short.
+ */
+export type DeepPartial<T> =
+  [T] extends [(infer U)[]] ? DeepPartial<U>[] :
+  [T] extends [object] ? { [K in keyof T]?: DeepPartial<T[K]> } :
+  T;
+
+export interface LlmAttachment {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface LlmRequest {
+  feature: ModelFeature;
+  prompt: string;
+  system?: string;
+  // A schema asks for JSON of that shape; `json` asks for any JSON
+  schema?: JsonSchema;
+  json?: boolean;
+  grounded?: boolean;
+  attachments?: LlmAttachment[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options for the AI service functions. `refresh` skips the
+ * response cache and overwrites whatever it held.
+ */
+export interface LlmCallOptions {
+  signal?: AbortSignal;
+  refresh?: boolean;
+}
+
+export interface LlmCacheEntry<T = unknown> {
+  key: string;
+  feature: ModelFeature;
+  model: string;
+  value: T;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LlmCitation {
+  web: { uri: string; title: string };
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// 'length' means the reply hit the output token limit and is incomplete
+export type LlmFinishReason = 'stop' | 'length' | 'other';
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  citations: LlmCitation[];
+  // Absent when the backend doesn't report it
+  usage?: LlmTokenUsage;
+  finishReason?: LlmFinishReason;
+}
+
+/**
+ * Today's model usage for the signed-in user against their daily budget,
+ * plus what the scheduler is doing right now.
+ */
+export interface LlmUsage {
+  day: string;
+  requests: number;
+  tokens: number;
+  requestLimit: number;
+  tokenLimit: number;
+  active: number;
+  queued: number;
+}
+
+/**
+ * A model backend. Backends without search grounding answer grounded
+ * requests from the model alone and return no citations.
+ */
+export interface LlmClient {
+  id: LlmProviderId;
+  supportsGrounding: boolean;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+  stream: (request: LlmRequest) => AsyncIterable<string>;
 }
 
 export interface AppState {
@@ -232,6 +729,9 @@ export interface AppState {
   interviewHistory: InterviewSession[];
   activeStrategy: any;
   discoveredJobs: DiscoveredJob[];
+  savedSearches: SavedSearch[];
+  contacts: Contact[];
+  outreach: OutreachMessage[];
+  artifacts: Artifact[];
   roadmap: CareerRoadmap | null;
-  tasks: Record<string, TaskState>;
 }
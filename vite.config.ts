@@ -8,7 +8,11 @@ export default defineConfig({
       API_KEY: JSON.stringify(process.env.API_KEY || ''),
       SUPABASE_URL: JSON.stringify(process.env.SUPABASE_URL || ''),
       SUPABASE_ANON_KEY: JSON.stringify(process.env.SUPABASE_ANON_KEY || ''),
-      SERP_API_KEY: JSON.stringify(process.env.SERP_API_KEY || '')
+      SERP_API_KEY: JSON.stringify(process.env.SERP_API_KEY || ''),
+      LLM_PROVIDER: JSON.stringify(process.env.LLM_PROVIDER || ''),
+      OPENAI_BASE_URL: JSON.stringify(process.env.OPENAI_BASE_URL || ''),
+      OPENAI_API_KEY: JSON.stringify(process.env.OPENAI_API_KEY || ''),
+      OPENAI_MODEL: JSON.stringify(process.env.OPENAI_MODEL || '')
     }
   },
   build: {